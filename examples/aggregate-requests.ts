@@ -1,4 +1,4 @@
-import { Lighterceptor } from "../src/index";
+import { Lighterceptor } from "../src/index.js";
 
 const html = `
   <!doctype html>
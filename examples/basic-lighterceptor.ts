@@ -1,4 +1,4 @@
-import { Lighterceptor } from "../src/index";
+import { Lighterceptor } from "../src/index.js";
 
 // This example uses the high-level Lighterceptor wrapper to scan HTML and
 // capture any outbound requests it would have triggered in a browser.
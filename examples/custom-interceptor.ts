@@ -1,4 +1,4 @@
-import { createJSDOMWithInterceptor } from "../src/index";
+import { createJSDOMWithInterceptor } from "../src/index.js";
 
 type CapturedRequest = {
   url: string;
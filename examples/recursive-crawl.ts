@@ -1,4 +1,4 @@
-import { Lighterceptor } from "../src/index";
+import { createMapFetcher, Lighterceptor } from "../src/index.js";
 
 // This example demonstrates recursive discovery. When recursion is enabled,
 // the interceptor will fetch JS/CSS/HTML resources and walk their dependencies.
@@ -61,33 +61,17 @@ const resources = new Map<string, { body: string; contentType: string }>([
 ]);
 
 async function run() {
-  const originalFetch = globalThis.fetch;
-  globalThis.fetch = async (input: RequestInfo | URL) => {
-    const url = typeof input === "string" ? input : input.toString();
-    const entry = resources.get(url);
-    if (!entry) {
-      return new Response("", { status: 404 });
-    }
-    return new Response(entry.body, {
-      status: 200,
-      headers: {
-        "content-type": entry.contentType,
-      },
-    });
-  };
-
-  try {
-    const interceptor = new Lighterceptor(html, { recursion: true });
-    const result = await interceptor.run();
-    console.log(
-      "Requests:",
-      result.requests.map((item) => item.url),
-    );
-  } finally {
-    if (originalFetch) {
-      globalThis.fetch = originalFetch;
-    }
-  }
+  // The map fetcher serves the fixtures above, so the crawl never leaves the
+  // process and no global fetch stub is required.
+  const interceptor = new Lighterceptor(html, {
+    recursion: true,
+    fetcher: createMapFetcher(resources),
+  });
+  const result = await interceptor.run();
+  console.log(
+    "Requests:",
+    result.requests.map((item) => item.url),
+  );
 }
 
 void run();
@@ -0,0 +1,80 @@
+import {
+  createJSDOMWithInterceptor,
+  createRouteTable,
+  Lighterceptor,
+} from "../src/index.js";
+
+// A route table replaces hand-written `if (url.endsWith(...))` chains. The
+// same table answers the jsdom interceptor and serves recursion.
+const routes = createRouteTable(
+  [
+    {
+      url: "https://assets.example.com/**.css",
+      body: 'body { background: url("https://assets.example.com/paper.png"); }',
+    },
+    { url: "/api/**", method: ["GET", "POST"], body: "{}", delayMs: 20 },
+    { url: /\.(png|gif)$/, body: "" },
+  ],
+  {
+    onUnmatched: (request) =>
+      console.log("No route for", request.method, request.url),
+  },
+);
+
+const html = `
+  <!doctype html>
+  <html>
+    <head>
+      <link rel="stylesheet" href="https://assets.example.com/theme.css" />
+      <script src="/js/legacy.js"></script>
+    </head>
+    <body>
+      <img src="https://assets.example.com/badge.png" />
+      <script>fetch("/api/session", { method: "POST" });</script>
+    </body>
+  </html>
+`;
+
+async function run() {
+  // Keep every interceptor response so the page's requests can be awaited.
+  const pending: Array<Promise<unknown>> = [];
+  const dom = createJSDOMWithInterceptor({
+    html,
+    domOptions: {
+      url: "https://example.com/",
+      runScripts: "dangerously",
+      beforeParse(window) {
+        // The interceptor records fetch() calls; this stub stands in for the
+        // network.
+        window.fetch = () =>
+          Promise.resolve({ ok: true }) as unknown as Promise<Response>;
+      },
+    },
+    interceptor: (url, options) => {
+      const response = Promise.resolve(routes.interceptor(url, options));
+      pending.push(response);
+      return response;
+    },
+  });
+
+  // Responses can trigger more requests, so wait until no new ones appear.
+  let settled = 0;
+  while (settled < pending.length) {
+    settled = pending.length;
+    await Promise.all(pending);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  dom.window.close();
+  console.log("Unmatched in the page:", routes.unmatched);
+
+  const result = await new Lighterceptor(html, {
+    baseUrl: "https://example.com/",
+    recursion: true,
+    fetcher: routes.fetcher,
+  }).run();
+
+  console.log(result.requests.map((request) => request.url));
+  console.log("Unmatched overall:", routes.unmatched);
+}
+
+void run();
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createMapFetcher,
+  Lighterceptor,
+  type ResourceFetcher,
+} from "../src/index";
+
+describe("aborting runs", () => {
+  it("returns a partial result when timeoutMs elapses", async () => {
+    const html = `
+      <img src="https://example.com/early.png">
+      <script>
+        setInterval(() => fetch("https://example.com/poll"), 5);
+      </script>
+    `;
+    const startedAt = Date.now();
+
+    const result = await new Lighterceptor(html, {
+      settleTimeMs: 10_000,
+      timeoutMs: 50,
+    }).run();
+
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+    expect(result.aborted).toBe(true);
+    expect(result.requests.map((item) => item.url)).toContain(
+      "https://example.com/early.png",
+    );
+  });
+
+  it("aborts in-flight fetches when the signal fires", async () => {
+    const controller = new AbortController();
+    let fetchSignal: AbortSignal | undefined;
+    const fetcher: ResourceFetcher = (_url, init) => {
+      fetchSignal = init?.signal;
+      controller.abort();
+      return new Promise(() => undefined);
+    };
+
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/site.css">`,
+      { recursion: true, fetcher, signal: controller.signal, settleTimeMs: 0 },
+    ).run();
+
+    expect(fetchSignal?.aborted).toBe(true);
+    expect(result.aborted).toBe(true);
+    expect(result.requests.map((item) => item.url)).toContain(
+      "https://example.com/site.css",
+    );
+  });
+
+  it("does nothing when the signal is already aborted", async () => {
+    const fetched: string[] = [];
+    const mapFetcher = createMapFetcher({
+      "https://example.com/site.css": '@import "./theme.css";',
+    });
+    const fetcher: ResourceFetcher = (url) => {
+      fetched.push(url);
+      return mapFetcher(url);
+    };
+
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/site.css">`,
+      { recursion: true, fetcher, signal: AbortSignal.abort() },
+    ).run();
+
+    expect(result.aborted).toBe(true);
+    expect(fetched).toEqual([]);
+  });
+
+  it("leaves later runs in the process working after closing a window", async () => {
+    const html = `<div id="box"></div>
+      <script>
+        const box = document.getElementById("box");
+        box.style.setProperty("background", "url(https://example.com/a.png)");
+        box.style.cssText = "mask: url(https://example.com/b.svg)";
+        fetch("https://example.com/" + ["after", "styles"].join("-"));
+      </script>`;
+
+    for (let run = 0; run < 2; run += 1) {
+      const result = await new Lighterceptor(html, { settleTimeMs: 0 }).run();
+
+      expect(result.requests.map((item) => item.url)).toEqual(
+        expect.arrayContaining([
+          "https://example.com/a.png",
+          "https://example.com/b.svg",
+          "https://example.com/after-styles",
+        ]),
+      );
+    }
+  });
+
+  it("reports completed runs as not aborted", async () => {
+    const result = await new Lighterceptor(
+      `<img src="https://example.com/a.png">`,
+      { timeoutMs: 5_000 },
+    ).run();
+
+    expect(result.aborted).toBe(false);
+  });
+});
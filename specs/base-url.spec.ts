@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { Lighterceptor } from "../src/index";
+
+describe("base url", () => {
+  it("resolves the document against baseUrl and <base href>", async () => {
+    const run = (base: string) =>
+      new Lighterceptor(
+        `<!doctype html>
+        ${base}
+        <link rel="stylesheet" href="/site.css">
+        <img src="logo.png">
+        <video poster="poster.jpg"></video>
+        <a href="../about">About</a>
+        <script>fetch("api/items");</script>`,
+        { baseUrl: "https://example.com/shop/index.html" },
+      ).run();
+    const urlsOf = async (base: string) => [
+      ...new Set((await run(base)).requests.map((item) => item.url)),
+    ];
+
+    expect(await urlsOf("")).toEqual([
+      "https://example.com/site.css",
+      "https://example.com/shop/api/items",
+      "https://example.com/shop/logo.png",
+      "https://example.com/shop/poster.jpg",
+      "https://example.com/about",
+    ]);
+    expect(
+      await urlsOf(`<base href="https://cdn.example.com/assets/">`),
+    ).toEqual([
+      "https://cdn.example.com/site.css",
+      "https://cdn.example.com/assets/api/items",
+      "https://cdn.example.com/assets/logo.png",
+      "https://cdn.example.com/assets/poster.jpg",
+      "https://cdn.example.com/about",
+    ]);
+  });
+
+  it("resolves css and javascript input against baseUrl", async () => {
+    const css = await new Lighterceptor(
+      `.hero { background: url(img/hero.png); }`,
+      { baseUrl: "https://example.com/css/site.css" },
+    ).run();
+    const js = await new Lighterceptor(`fetch("/api/config");`, {
+      baseUrl: "https://example.com/js/app.js",
+    }).run();
+
+    expect(css.requests.map((item) => item.url)).toEqual([
+      "https://example.com/css/img/hero.png",
+    ]);
+    expect(js.requests.map((item) => item.url)).toEqual([
+      "https://example.com/api/config",
+    ]);
+  });
+
+  it("uses the input origin for same-origin scope rules", async () => {
+    const result = await new Lighterceptor(
+      `<img src="/local.png"><img src="https://tracker.example.net/pixel.gif">`,
+      {
+        baseUrl: "https://example.com/",
+        scope: { record: { sameOrigin: true } },
+      },
+    ).run();
+
+    expect(new Set(result.requests.map((item) => item.url))).toEqual(
+      new Set(["https://example.com/local.png"]),
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createJSDOMWithInterceptor,
+  type FetchOptions,
+  Lighterceptor,
+} from "../src/index";
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("beacon, websocket and eventsource interception", () => {
+  it("intercepts sendBeacon, WebSocket and EventSource from scripts", async () => {
+    const seen: Array<[string, FetchOptions]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<script>
+        navigator.sendBeacon("https://example.com/beacon", "left=1");
+        window.socket = new WebSocket("/live", ["v1", "v2"]);
+        window.stream = new EventSource("https://example.com/events", {
+          withCredentials: true,
+        });
+      </script>`,
+      domOptions: {
+        url: "https://example.com/page",
+        runScripts: "dangerously",
+      },
+      interceptor: (url, options) => {
+        seen.push([url, options]);
+        return Buffer.from("");
+      },
+    });
+
+    await wait(0);
+
+    expect(seen).toEqual([
+      [
+        "https://example.com/beacon",
+        expect.objectContaining({
+          source: "beacon",
+          method: "POST",
+          body: "left=1",
+        }),
+      ],
+      [
+        "wss://example.com/live",
+        expect.objectContaining({
+          source: "websocket",
+          headers: { "sec-websocket-protocol": "v1, v2" },
+        }),
+      ],
+      [
+        "https://example.com/events",
+        expect.objectContaining({
+          source: "eventsource",
+          credentials: "include",
+        }),
+      ],
+    ]);
+
+    const window = dom.window as unknown as {
+      socket: WebSocket;
+      stream: EventSource;
+    };
+    expect(window.socket.url).toBe("wss://example.com/live");
+    expect(window.socket.readyState).toBe(0);
+    window.socket.close();
+    expect(window.socket.readyState).toBe(3);
+    expect(window.stream.withCredentials).toBe(true);
+    expect(typeof window.socket.addEventListener).toBe("function");
+  });
+
+  it("records the new sources during a run", async () => {
+    const result = await new Lighterceptor(`<script>
+      navigator.sendBeacon("https://example.com/beacon");
+      new WebSocket("wss://example.com/socket");
+      new EventSource("https://example.com/events");
+    </script>`).run();
+
+    expect(
+      result.requests.map((item) => [item.source, item.url, item.discoveredBy]),
+    ).toEqual([
+      ["beacon", "https://example.com/beacon", "navigator.sendBeacon()"],
+      ["websocket", "wss://example.com/socket", "new WebSocket()"],
+      ["eventsource", "https://example.com/events", "new EventSource()"],
+    ]);
+  });
+
+  it("finds beacons, sockets and event streams in JavaScript input", async () => {
+    const result = await new Lighterceptor(`
+      const ws = new WebSocket("https://example.com/ws");
+      const events = new EventSource('https://example.com/stream');
+      window.addEventListener("pagehide", () => {
+        navigator.sendBeacon("https://example.com/bye", data);
+      });
+    `).run();
+
+    expect(result.requests.map((item) => [item.source, item.url])).toEqual([
+      ["beacon", "https://example.com/bye"],
+      ["websocket", "wss://example.com/ws"],
+      ["eventsource", "https://example.com/stream"],
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { spawnSync } from "node:child_process";
+import { copyFile, mkdtemp, readFile, rm, symlink } from "node:fs/promises";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const root = path.resolve(import.meta.dirname, "..");
+
+describe("built binary", () => {
+  let directory: string;
+  let bin: string;
+
+  // Builds into a scratch copy of the package, so the run leaves no output in
+  // the working tree.
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "lighterceptor-bin-"));
+    const pkg = JSON.parse(
+      await readFile(path.join(root, "package.json"), "utf8"),
+    ) as { bin: Record<string, string> };
+    bin = path.join(directory, pkg.bin.lighterceptor);
+
+    const tsc = createRequire(import.meta.url).resolve("typescript/bin/tsc");
+    const build = spawnSync(
+      process.execPath,
+      [
+        tsc,
+        "-p",
+        path.join(root, "tsconfig.build.json"),
+        "--outDir",
+        path.dirname(bin),
+      ],
+      { encoding: "utf8" },
+    );
+    expect(build.status, build.stdout + build.stderr).toBe(0);
+
+    await copyFile(
+      path.join(root, "package.json"),
+      path.join(directory, "package.json"),
+    );
+    await symlink(
+      path.join(root, "node_modules"),
+      path.join(directory, "node_modules"),
+      "dir",
+    );
+  }, 120_000);
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("runs from the path package.json points at", () => {
+    const run = spawnSync(
+      process.execPath,
+      [bin, "--settle-time-ms", "0", "--format", "ndjson"],
+      {
+        cwd: directory,
+        encoding: "utf8",
+        input: `<img src="https://example.com/logo.png">`,
+      },
+    );
+
+    expect(run.stderr).toBe("");
+    expect(run.status).toBe(0);
+    expect(
+      run.stdout
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).url),
+    ).toContain("https://example.com/logo.png");
+  });
+});
@@ -0,0 +1,179 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { runCli } from "../src/cli";
+
+const createIO = (stdinText = "") => {
+  const output = { stdout: "", stderr: "" };
+  const io = {
+    stdin: Object.assign(
+      (async function* stdin() {
+        yield stdinText;
+      })(),
+      { isTTY: false },
+    ),
+    stdout: {
+      write: (chunk: string) => {
+        output.stdout += chunk;
+      },
+    },
+    stderr: {
+      write: (chunk: string) => {
+        output.stderr += chunk;
+      },
+    },
+  };
+  return { io, output };
+};
+
+describe("lighterceptor cli", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "lighterceptor-cli-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads stdin and prints json by default", async () => {
+    const { io, output } = createIO(
+      `<title>Home</title><img src="https://example.com/a.png">`,
+    );
+
+    const code = await runCli(["--settle-time-ms", "0"], io);
+
+    expect(code).toBe(0);
+    const result = JSON.parse(output.stdout);
+    expect(result.title).toBe("Home");
+    expect(result.requests[0].url).toBe("https://example.com/a.png");
+  });
+
+  it("resolves relative urls against --base-url", async () => {
+    const { io, output } = createIO(`<img src="/logo.png">`);
+
+    const code = await runCli(
+      ["--settle-time-ms", "0", "--base-url", "https://example.com/shop/"],
+      io,
+    );
+
+    expect(code).toBe(0);
+    const result = JSON.parse(output.stdout);
+    expect(result.requests[0].url).toBe("https://example.com/logo.png");
+  });
+
+  it("emulates the device given by --viewport and --device-pixel-ratio", async () => {
+    const { io, output } = createIO(
+      `<img src="https://example.com/a.png" srcset="https://example.com/a@2x.png 2x">`,
+    );
+
+    const code = await runCli(
+      [
+        "--settle-time-ms",
+        "0",
+        "--viewport",
+        "390x844",
+        "--device-pixel-ratio",
+        "2",
+      ],
+      io,
+    );
+
+    expect(code).toBe(0);
+    const result = JSON.parse(output.stdout);
+    expect(
+      result.requests
+        .filter((item: { selected?: boolean }) => item.selected)
+        .map((item: { url: string }) => item.url),
+    ).toContain("https://example.com/a@2x.png");
+  });
+
+  it("reads a file and prints ndjson", async () => {
+    const file = path.join(directory, "page.html");
+    await writeFile(
+      file,
+      `<img src="https://example.com/a.png"><img src="https://example.com/b.png">`,
+    );
+    const { io, output } = createIO();
+
+    const code = await runCli([file, "--format", "ndjson"], io);
+
+    expect(code).toBe(0);
+    const lines = output.stdout
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.url)).toContain(
+      "https://example.com/b.png",
+    );
+  });
+
+  it("prints a table and maps flags onto options", async () => {
+    await writeFile(path.join(directory, "site.css"), '@import "./theme.css";');
+    const { io, output } = createIO(
+      `<link rel="stylesheet" href="https://example.com/site.css">`,
+    );
+
+    const code = await runCli(
+      [
+        "-",
+        "-f",
+        "table",
+        "--recursion",
+        "--fixtures-dir",
+        directory,
+        "--fixtures-origin",
+        "https://example.com",
+        "--max-depth",
+        "1",
+      ],
+      io,
+    );
+
+    expect(code).toBe(0);
+    expect(output.stdout).toMatch(/^SOURCE\s+DEPTH\s+URL$/m);
+    expect(output.stdout).toMatch(
+      /css\s+1\s+https:\/\/example\.com\/theme\.css/,
+    );
+    expect(output.stdout).toContain("Truncated by maxDepth");
+  });
+
+  it("exits with a usage error on invalid flags", async () => {
+    const { io, output } = createIO();
+
+    expect(await runCli(["--max-depth=-1"], io)).toBe(2);
+    expect(output.stderr).toContain(
+      "--max-depth expects a non-negative integer",
+    );
+    expect(await runCli(["--no-such-flag"], io)).toBe(2);
+    expect(await runCli(["--format", "xml"], io)).toBe(2);
+  });
+
+  it("prints a partial result and exits non-zero on timeout", async () => {
+    const { io, output } = createIO(
+      `<img src="https://example.com/a.png"><script>setInterval(() => {}, 5)</script>`,
+    );
+
+    const code = await runCli(
+      ["--settle-time-ms", "10000", "--timeout-ms", "20"],
+      io,
+    );
+
+    expect(code).toBe(1);
+    expect(JSON.parse(output.stdout).aborted).toBe(true);
+    expect(output.stderr).toContain("run aborted");
+  });
+
+  it("exits non-zero when the input cannot be read", async () => {
+    const { io, output } = createIO();
+
+    const code = await runCli([path.join(directory, "missing.html")], io);
+
+    expect(code).toBe(1);
+    expect(output.stderr).toContain("lighterceptor:");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createMapFetcher,
+  Lighterceptor,
+  type ResourceFetcher,
+} from "../src/index";
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const scripts = Array.from({ length: 12 }, (_, index) => index);
+
+const html = scripts
+  .map((index) => {
+    const host = index % 2 === 0 ? "a.example.com" : "b.example.com";
+    return `<script src="https://${host}/chunk-${index}.js"></script>`;
+  })
+  .join("");
+
+const mapFetcher = createMapFetcher(
+  Object.fromEntries(
+    scripts.flatMap((index) =>
+      ["a.example.com", "b.example.com"].map((host) => [
+        `https://${host}/chunk-${index}.js`,
+        `import "./nested-${index}.js"; fetch("/api/${index}");`,
+      ]),
+    ),
+  ),
+);
+
+const createTrackingFetcher = () => {
+  const stats = { active: 0, peak: 0, peakPerHost: new Map<string, number>() };
+  const activePerHost = new Map<string, number>();
+
+  const fetcher: ResourceFetcher = async (url) => {
+    const { host } = new URL(url);
+    stats.active += 1;
+    stats.peak = Math.max(stats.peak, stats.active);
+    const hostActive = (activePerHost.get(host) ?? 0) + 1;
+    activePerHost.set(host, hostActive);
+    stats.peakPerHost.set(
+      host,
+      Math.max(stats.peakPerHost.get(host) ?? 0, hostActive),
+    );
+
+    // Later chunks finish first to shuffle completion order.
+    const index = Number(/(\d+)\.js$/.exec(url)?.[1] ?? 0);
+    await wait(20 - index);
+
+    stats.active -= 1;
+    activePerHost.set(host, hostActive - 1);
+    return mapFetcher(url);
+  };
+
+  return { fetcher, stats };
+};
+
+describe("concurrent recursion", () => {
+  it("produces the same request order as a sequential walk", async () => {
+    const sequential = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: createTrackingFetcher().fetcher,
+      concurrency: 1,
+      settleTimeMs: 0,
+    }).run();
+
+    const concurrent = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: createTrackingFetcher().fetcher,
+      concurrency: 6,
+      settleTimeMs: 0,
+    }).run();
+
+    const urls = (items: { url: string }[]) => items.map((item) => item.url);
+    expect(urls(concurrent.requests)).toEqual(urls(sequential.requests));
+    expect(urls(concurrent.requests)).toContain(
+      "https://b.example.com/nested-11.js",
+    );
+  });
+
+  it("respects global and per-host concurrency limits", async () => {
+    const { fetcher, stats } = createTrackingFetcher();
+
+    await new Lighterceptor(html, {
+      recursion: true,
+      fetcher,
+      concurrency: 4,
+      perHostConcurrency: 1,
+      settleTimeMs: 0,
+    }).run();
+
+    expect(stats.peak).toBeLessThanOrEqual(4);
+    expect(stats.peak).toBeGreaterThan(1);
+    expect(stats.peakPerHost.get("a.example.com")).toBe(1);
+    expect(stats.peakPerHost.get("b.example.com")).toBe(1);
+  });
+});
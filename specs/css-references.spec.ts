@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { createJSDOMWithInterceptor, Lighterceptor } from "../src/index";
+
+const referencesOf = async (css: string) => {
+  const result = await new Lighterceptor(css).run();
+  return result.requests.map((item) => [
+    item.url,
+    item.classification,
+    item.discoveredBy,
+  ]);
+};
+
+describe("css reference extraction", () => {
+  it("classifies imports, fonts, images, cursors and masks", async () => {
+    const references = await referencesOf(`
+      @import "https://example.com/base.css";
+      @font-face {
+        font-family: Brand;
+        src: local("Brand"), url(https://example.com/brand.woff2) format("woff2"),
+          url("https://example.com/brand.woff") format("woff");
+      }
+      .hero { background: url(https://example.com/hero.png) no-repeat; }
+      .drag { cursor: url("https://example.com/grab.cur") 4 4, grab; }
+      .logo { -webkit-mask-image: url(https://example.com/mask.svg); }
+      .icon { mask: url(https://example.com/icon-mask.svg) center; }
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/base.css", "import", "@import"],
+      ["https://example.com/brand.woff2", "font", "url()"],
+      ["https://example.com/brand.woff", "font", "url()"],
+      ["https://example.com/hero.png", "image", "url()"],
+      ["https://example.com/grab.cur", "cursor", "url()"],
+      ["https://example.com/mask.svg", "mask", "url()"],
+      ["https://example.com/icon-mask.svg", "mask", "url()"],
+    ]);
+  });
+
+  it("ignores comments and url() text inside strings", async () => {
+    const references = await referencesOf(`
+      /* .old { background: url(https://example.com/commented.png); } */
+      .quote::before { content: "url(https://example.com/in-string.png)"; }
+      .escaped { background: url("https://example.com/it\\'s \\"here\\".png"); }
+      .ok { background-image: url( https://example.com/spaced.png ); }
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/it's%20%22here%22.png", "image", "url()"],
+      ["https://example.com/spaced.png", "image", "url()"],
+    ]);
+  });
+
+  it("decodes escapes and skips fragment-only references", async () => {
+    const references = await referencesOf(`
+      .a { background: url(https://example.com/\\62 g.png); }
+      .b { filter: url(#blur); }
+      .c { background: u\\72l(https://example.com/escaped-fn.png); }
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/bg.png", "image", "url()"],
+      ["https://example.com/escaped-fn.png", "image", "url()"],
+    ]);
+  });
+
+  it("reads image-set() candidates", async () => {
+    const references = await referencesOf(`
+      .a {
+        background-image: image-set(
+          "https://example.com/a-1x.png" 1x,
+          url(https://example.com/a-2x.png) 2x
+        );
+      }
+      .b { background: -webkit-image-set("https://example.com/b.avif" type("image/avif")); }
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/a-1x.png", "image", "image-set()"],
+      ["https://example.com/a-2x.png", "image", "url()"],
+      ["https://example.com/b.avif", "image", "image-set()"],
+    ]);
+  });
+
+  it("reads @import with layer, supports and media conditions", async () => {
+    const references = await referencesOf(`
+      @import url("https://example.com/layered.css") layer(base) supports(display: grid) screen and (min-width: 40em);
+      @import url(https://example.com/print.css) print;
+      @import "https://example.com/anon.css" layer;
+      @namespace svg url(http://www.w3.org/2000/svg);
+      .x { color: red; }
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/layered.css", "import", "@import"],
+      ["https://example.com/print.css", "import", "@import"],
+      ["https://example.com/anon.css", "import", "@import"],
+    ]);
+  });
+
+  it("classifies css set from scripts in the jsdom window", async () => {
+    const seen: Array<[string, string | undefined]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<body></body>`,
+      interceptor: (url, options) => {
+        seen.push([url, options.classification]);
+        return Buffer.from("");
+      },
+    });
+
+    const style = dom.window.document.createElement("style");
+    style.textContent = `
+      @import url("https://example.com/theme.css");
+      body { cursor: url(https://example.com/pointer.cur), auto; }
+    `;
+
+    expect(seen).toEqual([
+      ["https://example.com/theme.css", "import"],
+      ["https://example.com/pointer.cur", "cursor"],
+    ]);
+  });
+});
@@ -127,4 +127,117 @@ describe("css url interception", () => {
 
     expect(seen).toContain("https://example.com/reset.css");
   });
+
+  it("intercepts urls from style property assignment", async () => {
+    const seen: Array<[string, string | undefined]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<body></body>`,
+      interceptor: (url, options) => {
+        seen.push([url, options.classification]);
+        return Buffer.from("");
+      },
+    });
+
+    const div = dom.window.document.createElement("div");
+    div.style.backgroundImage = "url(https://example.com/assigned.png)";
+    div.style.cursor = "url(https://example.com/hand.cur), pointer";
+    div.style.color = "red";
+
+    expect(seen).toEqual([
+      ["https://example.com/assigned.png", "image"],
+      ["https://example.com/hand.cur", "cursor"],
+    ]);
+  });
+
+  it("records one request per style change, in every window", async () => {
+    for (let run = 0; run < 2; run += 1) {
+      const seen: string[] = [];
+      const dom = createJSDOMWithInterceptor({
+        html: `<style></style>`,
+        interceptor: (url) => {
+          seen.push(url);
+          return Buffer.from("");
+        },
+      });
+
+      const { style } = dom.window.document.createElement("div");
+      style.setProperty("background", "url(https://example.com/shorthand.png)");
+      style.backgroundImage = "url(https://example.com/longhand.png)";
+      style.cssText = "border-image: url(https://example.com/border.png) 30";
+      dom.window.document.styleSheets[0].insertRule(
+        ".a{cursor:url(https://example.com/rule.cur),auto}",
+      );
+
+      expect(seen).toEqual([
+        "https://example.com/shorthand.png",
+        "https://example.com/longhand.png",
+        "https://example.com/border.png",
+        "https://example.com/rule.cur",
+      ]);
+      dom.window.close();
+    }
+  });
+
+  it("intercepts urls from insertRule", async () => {
+    const seen: string[] = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<style></style>`,
+      interceptor: (url) => {
+        seen.push(url);
+        return Buffer.from("");
+      },
+    });
+
+    const sheet = dom.window.document.styleSheets[0];
+    sheet.insertRule(
+      ".css-1x{background:url(https://example.com/emotion.png)}",
+    );
+
+    expect(seen).toEqual(["https://example.com/emotion.png"]);
+    expect(sheet.cssRules).toHaveLength(1);
+  });
+
+  it("intercepts constructed stylesheets once they are adopted", async () => {
+    const seen: string[] = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<div id="host"></div>`,
+      interceptor: (url) => {
+        seen.push(url);
+        return Buffer.from("");
+      },
+    });
+
+    const { window } = dom;
+    const sheet = new window.CSSStyleSheet() as CSSStyleSheet;
+    sheet.replaceSync(`
+      @import url("https://example.com/ignored.css");
+      .a { background: url(https://example.com/constructed.png); }
+    `);
+    expect(sheet instanceof window.CSSStyleSheet).toBe(true);
+    expect(sheet.cssRules).toHaveLength(1);
+    expect(seen).toEqual([]);
+
+    const shadow = window.document
+      .getElementById("host")
+      ?.attachShadow({ mode: "open" });
+    if (!shadow) {
+      throw new Error("expected a shadow root");
+    }
+    shadow.adoptedStyleSheets = [sheet];
+    expect(seen).toEqual(["https://example.com/constructed.png"]);
+    expect(shadow.adoptedStyleSheets).toEqual([sheet]);
+
+    await sheet.replace(".b { mask: url(https://example.com/replaced.svg); }");
+    sheet.insertRule(".c { background: url(https://example.com/later.png); }");
+    window.document.adoptedStyleSheets = [sheet];
+
+    expect(seen).toEqual([
+      "https://example.com/constructed.png",
+      "https://example.com/replaced.svg",
+      "https://example.com/later.png",
+    ]);
+  });
 });
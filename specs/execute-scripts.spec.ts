@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+const html = (src: string, type = "text/javascript") =>
+  `<!doctype html><script type="${type}" src="${src}"></script>`;
+
+describe("executing fetched scripts", () => {
+  it("captures URLs a classic script only builds at runtime", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/app.js": `
+        const ids = [1, 2].join("-");
+        fetch("https://example.com/api/static");
+        fetch("https://example.com/api/items/" + ids);
+        setTimeout(() => {
+          const image = new Image();
+          image.src = "https://example.com/pixel-" + ids + ".gif";
+        }, 0);
+      `,
+    });
+
+    const run = (executeScripts: boolean) =>
+      new Lighterceptor(html("https://example.com/app.js"), {
+        recursion: true,
+        executeScripts,
+        fetcher,
+      }).run();
+
+    const urlsFrom = (result: Awaited<ReturnType<typeof run>>) =>
+      result.requests
+        .filter((item) => item.initiator === "https://example.com/app.js")
+        .map((item) => [item.url, item.source, item.discoveredBy]);
+
+    expect(urlsFrom(await run(false))).toEqual([
+      ["https://example.com/api/static", "fetch", "fetch()"],
+    ]);
+    expect(urlsFrom(await run(true))).toEqual([
+      ["https://example.com/api/static", "fetch", "fetch()"],
+      ["https://example.com/api/items/1-2", "fetch", "fetch()"],
+      ["https://example.com/pixel-1-2.gif", "img", "img[src]"],
+    ]);
+  });
+
+  it("runs module scripts and follows runtime imports", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/js/main.js": `
+        import { locale } from "./config.js";
+        export const ready = true;
+        const lang = navigator.language.slice(0, 2);
+        await import("./i18n/" + lang + ".js");
+        navigator.sendBeacon(new URL("../collect?from=" + lang, import.meta.url));
+      `,
+      "https://example.com/js/config.js": `export const locale = "en";`,
+      "https://example.com/js/i18n/en.js": `fetch("/strings.json");`,
+    });
+
+    const result = await new Lighterceptor(
+      html("https://example.com/js/main.js", "module"),
+      { recursion: true, executeScripts: true, fetcher },
+    ).run();
+
+    expect(
+      result.requests
+        .filter((item) => item.initiator !== "document")
+        .map((item) => [item.initiator, item.url, item.discoveredBy]),
+    ).toEqual([
+      [
+        "https://example.com/js/main.js",
+        "https://example.com/js/config.js",
+        "import",
+      ],
+      [
+        "https://example.com/js/main.js",
+        "https://example.com/js/i18n/en.js",
+        "import()",
+      ],
+      [
+        "https://example.com/js/main.js",
+        "https://example.com/collect?from=en",
+        "navigator.sendBeacon()",
+      ],
+      [
+        "https://example.com/js/i18n/en.js",
+        "https://example.com/strings.json",
+        "fetch()",
+      ],
+    ]);
+  });
+
+  it("binds imported names so modules that use them keep running", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/main.js": `
+        import api, { get, config as settings } from "./api.js";
+        import * as analytics from "./analytics.js";
+        get("/boot");
+        analytics.track("load", new api.Session());
+        const { lazy } = await import("./lazy.js");
+        lazy();
+        fetch(settings.base + "/items?page=" + [1].length);
+      `,
+    });
+
+    const result = await new Lighterceptor(
+      html("https://example.com/main.js", "module"),
+      { recursion: true, executeScripts: true, fetcher },
+    ).run();
+
+    expect(
+      result.requests
+        .filter((item) => item.source === "fetch")
+        .map((item) => item.url),
+    ).toEqual(["https://example.com/items?page=1"]);
+  });
+});
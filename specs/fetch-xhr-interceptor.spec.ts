@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { createJSDOMWithInterceptor } from "../src/index";
+import { createJSDOMWithInterceptor, type FetchOptions } from "../src/index";
 
 function wait(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -99,4 +99,85 @@ describe("fetch and xhr interception", () => {
 
     expect(seen).toContain("https://example.com/script-xhr");
   });
+
+  it("captures fetch method, headers, credentials and body", async () => {
+    const seen: FetchOptions[] = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<body></body>`,
+      domOptions: {
+        beforeParse(window) {
+          window.fetch = () =>
+            Promise.resolve({ ok: true }) as unknown as Promise<Response>;
+        },
+      },
+      interceptor: (_url, options) => {
+        seen.push(options);
+        return Buffer.from("");
+      },
+    });
+
+    const form = new dom.window.URLSearchParams({ user: "ada", plan: "pro" });
+    await dom.window.fetch("https://example.com/signup", {
+      method: "post",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      credentials: "include",
+      body: form,
+    });
+    await dom.window.fetch("https://example.com/plain");
+
+    expect(seen[0]).toMatchObject({
+      source: "fetch",
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      credentials: "include",
+      body: "user=ada&plan=pro",
+    });
+    expect(seen[1]).toMatchObject({
+      method: "GET",
+      headers: {},
+      credentials: "same-origin",
+    });
+    expect(seen[1].body).toBeUndefined();
+  });
+
+  it("captures xhr method, request headers, credentials and body", async () => {
+    const seen: FetchOptions[] = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<body></body>`,
+      domOptions: {
+        beforeParse(window) {
+          window.XMLHttpRequest.prototype.send = function send() {};
+        },
+      },
+      interceptor: (_url, options) => {
+        seen.push(options);
+        return Buffer.from("");
+      },
+    });
+
+    const xhr = new dom.window.XMLHttpRequest();
+    xhr.open("put", "https://example.com/profile");
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader("X-Trace", "a");
+    xhr.setRequestHeader("X-Trace", "b");
+    xhr.withCredentials = true;
+    xhr.send(JSON.stringify({ email: "ada@example.com" }));
+
+    await wait(0);
+
+    expect(seen).toEqual([
+      expect.objectContaining({
+        source: "xhr",
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+          "x-trace": "a, b",
+        },
+        credentials: "include",
+        body: '{"email":"ada@example.com"}',
+      }),
+    ]);
+  });
 });
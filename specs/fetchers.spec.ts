@@ -0,0 +1,149 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createDirectoryFetcher,
+  createMapFetcher,
+  Lighterceptor,
+} from "../src/index";
+
+describe("resource fetchers", () => {
+  it("serves entries from an in-memory map", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/site.css": ".a{}",
+      "https://example.com/app.js": {
+        body: "fetch('/api')",
+        headers: { "X-Custom": "1" },
+      },
+    });
+
+    const css = await fetcher("https://example.com/site.css");
+    expect(css?.status).toBe(200);
+    expect(css?.body).toBe(".a{}");
+    expect(css?.headers["content-type"]).toBe("text/css");
+
+    const js = await fetcher("https://example.com/app.js");
+    expect(js?.headers["x-custom"]).toBe("1");
+    expect(js?.headers["content-type"]).toBe("application/javascript");
+
+    const missing = await fetcher("https://example.com/missing.js");
+    expect(missing?.status).toBe(404);
+  });
+
+  it("uses a custom fetcher for recursion without touching global fetch", async () => {
+    const globalFetch = vi.fn();
+    vi.stubGlobal("fetch", globalFetch);
+
+    try {
+      const fetcher = createMapFetcher({
+        "https://example.com/site.css": '@import "./theme.css";',
+        "https://example.com/theme.css": ".t{background:url(./theme.png)}",
+      });
+
+      const result = await new Lighterceptor(
+        `<link rel="stylesheet" href="https://example.com/site.css">`,
+        { recursion: true, fetcher },
+      ).run();
+
+      const urls = result.requests.map((item) => item.url);
+      expect(urls).toContain("https://example.com/theme.css");
+      expect(urls).toContain("https://example.com/theme.png");
+      expect(globalFetch).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("resolves dependencies against the final url of a redirect", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/app.js": {
+        body: 'import "./chunk.js";',
+        url: "https://cdn.example.com/v2/app.js",
+      },
+    });
+
+    const result = await new Lighterceptor(
+      `<script src="https://example.com/app.js"></script>`,
+      { recursion: true, fetcher },
+    ).run();
+
+    const urls = result.requests.map((item) => item.url);
+    expect(urls).toContain("https://cdn.example.com/v2/chunk.js");
+  });
+
+  it("skips resources that respond with an error status", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/site.css": {
+        body: '@import "./theme.css";',
+        status: 500,
+      },
+    });
+
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/site.css">`,
+      { recursion: true, fetcher },
+    ).run();
+
+    const urls = result.requests.map((item) => item.url);
+    expect(urls).not.toContain("https://example.com/theme.css");
+  });
+
+  describe("directory fetcher", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), "lighterceptor-"));
+      await mkdir(path.join(directory, "assets"));
+      await writeFile(
+        path.join(directory, "index.html"),
+        '<link rel="stylesheet" href="/assets/site.css">',
+      );
+      await writeFile(
+        path.join(directory, "assets", "site.css"),
+        ".hero{background:url(./hero.png)}",
+      );
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("maps an origin onto a local directory", async () => {
+      const fetcher = createDirectoryFetcher({
+        directory,
+        origin: "https://example.com",
+      });
+
+      const index = await fetcher("https://example.com/");
+      expect(index?.status).toBe(200);
+      expect(index?.headers["content-type"]).toBe("text/html");
+
+      const css = await fetcher("https://example.com/assets/site.css");
+      expect(css?.body).toContain("hero.png");
+
+      expect(await fetcher("https://other.com/assets/site.css")).toBeNull();
+      expect((await fetcher("https://example.com/..%2fsecret"))?.status).toBe(
+        404,
+      );
+    });
+
+    it("crawls a local directory offline", async () => {
+      const fetcher = createDirectoryFetcher({
+        directory,
+        origin: "https://example.com",
+      });
+
+      const result = await new Lighterceptor(
+        `<iframe src="https://example.com/"></iframe>`,
+        { recursion: true, fetcher },
+      ).run();
+
+      const urls = result.requests.map((item) => item.url);
+      expect(urls).toContain("https://example.com/assets/site.css");
+      expect(urls).toContain("https://example.com/assets/hero.png");
+    });
+  });
+});
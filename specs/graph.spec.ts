@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+const fetcher = createMapFetcher({
+  "https://example.com/site.css":
+    '@import url("./theme.css"); .hero{background:url("/hero.png")}',
+  "https://example.com/theme.css":
+    ".theme{background:url(https://example.com/theme.png)}",
+  "https://example.com/app.js": 'import("./lazy.js"); fetch("/api/data");',
+});
+
+describe("request graph", () => {
+  it("records the initiator and discovering construct of each request", async () => {
+    const result = await new Lighterceptor(
+      `
+        <link rel="stylesheet" href="https://example.com/site.css">
+        <script src="https://example.com/app.js"></script>
+        <img src="https://example.com/logo.png">
+      `,
+      { recursion: true, fetcher },
+    ).run();
+
+    const find = (url: string) =>
+      result.requests.find((item) => item.url === url);
+
+    expect(find("https://example.com/site.css")).toMatchObject({
+      initiator: "document",
+      discoveredBy: "link[href]",
+    });
+    expect(find("https://example.com/logo.png")).toMatchObject({
+      initiator: "document",
+      discoveredBy: "img[src]",
+    });
+    expect(find("https://example.com/theme.css")).toMatchObject({
+      initiator: "https://example.com/site.css",
+      discoveredBy: "@import",
+    });
+    expect(find("https://example.com/theme.png")).toMatchObject({
+      initiator: "https://example.com/theme.css",
+      discoveredBy: "url()",
+    });
+    expect(find("https://example.com/lazy.js")).toMatchObject({
+      initiator: "https://example.com/app.js",
+      discoveredBy: "import()",
+    });
+    expect(find("https://example.com/api/data")).toMatchObject({
+      initiator: "https://example.com/app.js",
+      discoveredBy: "fetch()",
+    });
+  });
+
+  it("labels element requests by the attribute they came from", async () => {
+    const result = await new Lighterceptor(
+      `
+        <script src="https://example.com/static.js"></script>
+        <video src="https://example.com/clip.mp4"
+          poster="https://example.com/poster.jpg">
+          <source src="https://example.com/clip.webm">
+          <track src="https://example.com/captions.vtt">
+        </video>
+        <audio src="https://example.com/song.mp3"></audio>
+        <picture><source srcset="https://example.com/wide.avif"></picture>
+        <embed src="https://example.com/widget.swf">
+        <object data="https://example.com/doc.pdf"></object>
+        <script>
+          const video = document.createElement("video");
+          video.poster = "https://example.com/late-poster.jpg";
+          video.src = "https://example.com/late-clip.mp4";
+          document.createElement("audio").setAttribute(
+            "src",
+            "https://example.com/late-song.mp3",
+          );
+          document.createElement("object").data = "https://example.com/late.pdf";
+        </script>
+      `,
+      { fetcher },
+    ).run();
+
+    const labels: Record<string, string[]> = {};
+    for (const item of result.requests) {
+      const url = item.url.replace("https://example.com/", "");
+      labels[url] = [...new Set([...(labels[url] ?? []), item.discoveredBy])];
+    }
+
+    expect(labels).toMatchObject({
+      "static.js": ["script[src]"],
+      "clip.mp4": ["video[src]"],
+      "poster.jpg": ["video[poster]"],
+      "clip.webm": ["source[src]"],
+      "captions.vtt": ["track[src]"],
+      "song.mp3": ["audio[src]"],
+      "wide.avif": ["source[srcset]"],
+      "widget.swf": ["embed[src]"],
+      "doc.pdf": ["object[data]"],
+      "late-poster.jpg": ["video[poster]"],
+      "late-clip.mp4": ["video[src]"],
+      "late-song.mp3": ["audio[src]"],
+      "late.pdf": ["object[data]"],
+    });
+  });
+
+  it("exposes nodes and de-duplicated edges", async () => {
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/site.css">`,
+      { recursion: true, fetcher },
+    ).run();
+
+    const { nodes, edges } = result.graph;
+    expect(nodes[0]).toEqual({ id: "document", fetched: false });
+    expect(nodes).toContainEqual({
+      id: "https://example.com/site.css",
+      kind: "css",
+      fetched: true,
+    });
+    expect(nodes).toContainEqual({
+      id: "https://example.com/hero.png",
+      kind: undefined,
+      fetched: false,
+    });
+    expect(edges).toContainEqual({
+      from: "https://example.com/site.css",
+      to: "https://example.com/theme.css",
+      source: "css",
+      discoveredBy: "@import",
+    });
+
+    const keys = edges.map((edge) =>
+      [edge.from, edge.to, edge.source, edge.discoveredBy].join(" "),
+    );
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
@@ -0,0 +1,193 @@
+import { readFile } from "node:fs/promises";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  createHarFetcher,
+  createMapFetcher,
+  type Har,
+  type HarEntry,
+  Lighterceptor,
+  toHar,
+} from "../src/index";
+
+const fetcher = createMapFetcher({
+  "https://example.com/site.css": {
+    body: '@import "./theme.css";',
+    headers: { "cache-control": "max-age=60" },
+  },
+  "https://example.com/theme.css": {
+    body: ".t{background:url(./theme.png)}",
+    url: "https://cdn.example.com/theme.css",
+  },
+});
+
+const html = `
+  <title>Landing</title>
+  <link rel="stylesheet" href="https://example.com/site.css">
+  <img src="https://example.com/logo.png?size=2x">
+`;
+
+describe("har export", () => {
+  it("serializes a capture as a HAR 1.2 log", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher,
+    }).run();
+    const { log } = toHar(result);
+
+    const pkg = JSON.parse(
+      await readFile(new URL("../package.json", import.meta.url), "utf8"),
+    ) as { name: string; version: string };
+    expect(log.version).toBe("1.2");
+    expect(log.creator).toEqual({ name: pkg.name, version: pkg.version });
+    expect(log.pages).toEqual([
+      {
+        startedDateTime: result.capturedAt,
+        id: "page_1",
+        title: "Landing",
+        pageTimings: {},
+      },
+    ]);
+    expect(log.entries).toHaveLength(result.requests.length);
+
+    const siteCss = log.entries.find(
+      (entry) => entry.request.url === "https://example.com/site.css",
+    );
+    expect(siteCss?.pageref).toBe("page_1");
+    expect(siteCss?.response.status).toBe(200);
+    expect(siteCss?.response.statusText).toBe("OK");
+    expect(siteCss?.response.content).toEqual({
+      size: 22,
+      mimeType: "text/css",
+      text: '@import "./theme.css";',
+    });
+    expect(siteCss?.response.headers).toContainEqual({
+      name: "cache-control",
+      value: "max-age=60",
+    });
+
+    const logo = log.entries.find((entry) =>
+      entry.request.url.startsWith("https://example.com/logo.png"),
+    );
+    expect(logo?.request.queryString).toEqual([{ name: "size", value: "2x" }]);
+    expect(logo?.response.status).toBe(0);
+    expect(logo?._source).toBe("img");
+  });
+
+  it("only sets redirectURL on 3xx responses with a Location", async () => {
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/site.css">
+       <link rel="stylesheet" href="https://example.com/theme.css">
+       <link rel="stylesheet" href="https://example.com/moved.css">`,
+      {
+        recursion: true,
+        fetcher: createMapFetcher({
+          "https://example.com/site.css": { body: "" },
+          "https://example.com/theme.css": {
+            body: "",
+            url: "https://cdn.example.com/theme.css",
+          },
+          "https://example.com/moved.css": {
+            body: "",
+            status: 302,
+            headers: { location: "/site.css" },
+          },
+        }),
+      },
+    ).run();
+    const response = (url: string) =>
+      toHar(result).log.entries.find((entry) => entry.request.url === url)
+        ?.response;
+
+    expect(response("https://example.com/moved.css")).toMatchObject({
+      status: 302,
+      redirectURL: "/site.css",
+    });
+    expect(response("https://example.com/theme.css")?.redirectURL).toBe("");
+    expect(response("https://example.com/site.css")?.redirectURL).toBe("");
+  });
+
+  it("exports request method, headers and body", async () => {
+    const result = await new Lighterceptor(`<script>
+      fetch("https://example.com/collect", {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: "hello",
+      });
+    </script>`).run();
+    const { log } = toHar(result);
+
+    expect(log.entries[0].request).toMatchObject({
+      method: "POST",
+      headers: [{ name: "content-type", value: "text/plain" }],
+      postData: { mimeType: "text/plain", text: "hello" },
+      bodySize: 5,
+    });
+  });
+
+  it("round-trips a HAR into a fixture source for recursion", async () => {
+    const original = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher,
+    }).run();
+    const har = JSON.parse(JSON.stringify(toHar(original)));
+
+    const replayed = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: createHarFetcher(har),
+    }).run();
+
+    const urls = replayed.requests.map((item) => item.url);
+    expect(urls).toEqual(original.requests.map((item) => item.url));
+    expect(urls).toContain("https://cdn.example.com/theme.png");
+  });
+
+  it("follows redirects recorded in a HAR", async () => {
+    const entry = (url: string, status: number, text = "", redirectURL = "") =>
+      ({
+        startedDateTime: "2024-01-01T00:00:00.000Z",
+        time: 0,
+        request: {
+          method: "GET",
+          url,
+          httpVersion: "HTTP/1.1",
+          cookies: [],
+          headers: [],
+          queryString: [],
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status,
+          statusText: "",
+          httpVersion: "HTTP/1.1",
+          cookies: [],
+          headers: [],
+          content: { size: text.length, mimeType: "text/css", text },
+          redirectURL,
+          headersSize: -1,
+          bodySize: text.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 },
+      }) satisfies HarEntry;
+
+    const har: Har = {
+      log: {
+        version: "1.2",
+        creator: { name: "test", version: "0.0.0" },
+        pages: [],
+        entries: [
+          entry("https://example.com/old.css", 301, "", "/new.css"),
+          entry("https://example.com/new.css", 200, ".n{background:url(n)}"),
+        ],
+      },
+    };
+
+    const resource = await createHarFetcher(har)("https://example.com/old.css");
+    expect(resource?.status).toBe(200);
+    expect(resource?.url).toBe("https://example.com/new.css");
+    expect(resource?.body).toContain("url(n)");
+  });
+});
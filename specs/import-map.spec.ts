@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+describe("import maps", () => {
+  it("resolves bare, prefixed and scoped specifiers from the page", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/index.html": `<!doctype html>
+        <script type="importmap">
+          {
+            "imports": {
+              "lodash": "https://cdn.example.com/lodash@4.js",
+              "ui/": "/ui/v2/",
+              "https://cdn.example.com/old.js": "/vendor/new.js"
+            },
+            "scopes": {
+              "/legacy/": { "lodash": "https://cdn.example.com/lodash@3.js" }
+            }
+          }
+        </script>
+        <script type="module">
+          import "lodash";
+          import { h } from "ui/button.js";
+        </script>
+        <script type="module" src="/legacy/widget.js"></script>`,
+      "https://example.com/legacy/widget.js": `
+        import "lodash";
+        import "https://cdn.example.com/old.js";
+        import("react");
+      `,
+    });
+
+    const result = await new Lighterceptor(
+      `<iframe src="https://example.com/index.html"></iframe>`,
+      { recursion: true, fetcher },
+    ).run();
+
+    expect(
+      result.requests
+        .filter((item) => item.discoveredBy.startsWith("import"))
+        .map((item) => [item.initiator, item.url]),
+    ).toEqual([
+      ["https://example.com/index.html", "https://cdn.example.com/lodash@4.js"],
+      ["https://example.com/index.html", "https://example.com/ui/v2/button.js"],
+      [
+        "https://example.com/legacy/widget.js",
+        "https://cdn.example.com/lodash@3.js",
+      ],
+      [
+        "https://example.com/legacy/widget.js",
+        "https://example.com/vendor/new.js",
+      ],
+    ]);
+    expect(result.unresolvedImports).toEqual([
+      {
+        specifier: "react",
+        initiator: "https://example.com/legacy/widget.js",
+        discoveredBy: "import()",
+        position: { line: 4, column: 16 },
+      },
+    ]);
+  });
+
+  it("uses the importMap option for JavaScript input", async () => {
+    const result = await new Lighterceptor(
+      `import "preact";\nimport "preact/hooks";\nimport "./local.js";\nimport "left-pad";`,
+      {
+        importMap: {
+          imports: {
+            preact: "https://esm.sh/preact",
+            "preact/": "https://esm.sh/preact/",
+            "left-pad": null,
+          },
+        },
+      },
+    ).run();
+
+    expect(result.requests.map((item) => item.url)).toEqual([
+      "https://esm.sh/preact",
+      "https://esm.sh/preact/hooks",
+      "./local.js",
+    ]);
+    expect(result.unresolvedImports?.map((item) => item.specifier)).toEqual([
+      "left-pad",
+    ]);
+  });
+
+  it("flags bare specifiers when there is no import map", async () => {
+    const result = await new Lighterceptor(`import _ from "lodash";`).run();
+
+    expect(result.requests).toEqual([]);
+    expect(result.unresolvedImports).toEqual([
+      {
+        specifier: "lodash",
+        initiator: "document",
+        discoveredBy: "import",
+        position: { line: 1, column: 15 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+const referencesOf = async (js: string) => {
+  const result = await new Lighterceptor(js).run();
+  return result.requests.map((item) => [
+    item.url,
+    item.discoveredBy,
+    item.position?.line,
+    item.position?.column,
+  ]);
+};
+
+describe("javascript reference extraction", () => {
+  it("ignores calls inside comments, strings and regular expressions", async () => {
+    const references = await referencesOf(`
+      // fetch("https://example.com/line-comment");
+      /* import("https://example.com/block-comment.js"); */
+      const help = 'call fetch("https://example.com/in-string") yourself';
+      const pattern = /fetch\\("https:\\/\\/example.com\\/in-regex"\\)/;
+      fetch("https://example.com/real");
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/real", "fetch()", 6, 13],
+    ]);
+  });
+
+  it("reads template literals and concatenated constants", async () => {
+    const references = await referencesOf(`
+      const BASE = "https://example.com/chunks/";
+      const LANG = "en"
+      import(BASE + "locale-" + LANG + ".js");
+      fetch(\`https://example.com/api/config\`);
+      fetch(\`https://example.com/api/users/\${id}\`);
+      import(someVariable);
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/chunks/locale-en.js", "import()", 4, 14],
+      ["https://example.com/api/config", "fetch()", 5, 13],
+    ]);
+  });
+
+  it("finds export-from and module imports across lines", async () => {
+    const references = await referencesOf(`import {
+  a,
+  b,
+} from "https://example.com/a.js";
+import "https://example.com/side-effect.js";
+export * from "https://example.com/all.js";
+export * as ns from "https://example.com/ns.js";
+export { c as default } from "https://example.com/c.js";
+export const notAReexport = 1;
+`);
+
+    expect(references).toEqual([
+      ["https://example.com/a.js", "import", 4, 8],
+      ["https://example.com/side-effect.js", "import", 5, 8],
+      ["https://example.com/all.js", "export from", 6, 15],
+      ["https://example.com/ns.js", "export from", 7, 21],
+      ["https://example.com/c.js", "export from", 8, 30],
+    ]);
+  });
+
+  it("resolves new URL(..., import.meta.url) against the module", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/js/app.js": `
+        const worker = new Worker(new URL("./worker.js", import.meta.url));
+        const wasm = new URL("../wasm/engine.wasm", import.meta.url);
+        const relative = new URL("./not-module-relative.png", location.href);
+      `,
+      "https://example.com/js/worker.js": "",
+    });
+
+    const result = await new Lighterceptor(
+      `<script type="module" src="https://example.com/js/app.js"></script>`,
+      { recursion: true, fetcher },
+    ).run();
+
+    expect(
+      result.requests
+        .filter((item) => item.initiator === "https://example.com/js/app.js")
+        .map((item) => [item.url, item.source, item.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/js/worker.js", "worker", "new Worker()"],
+      ["https://example.com/wasm/engine.wasm", "resource", "new URL()"],
+    ]);
+  });
+
+  it("only treats open() with an HTTP method as XMLHttpRequest", async () => {
+    const references = await referencesOf(`
+      xhr.open("POST", "https://example.com/xhr");
+      window.open("https://example.com/popup", "_blank");
+      db.open("name", "https://example.com/db");
+      indexedDB.open("x", "https://example.com/idb");
+      caches.open("v1", "https://example.com/cache");
+      xhr.open("get", "https://example.com/lower");
+    `);
+
+    expect(references).toEqual([
+      ["https://example.com/xhr", "XMLHttpRequest.open()", 2, 24],
+      ["https://example.com/lower", "XMLHttpRequest.open()", 7, 23],
+    ]);
+  });
+});
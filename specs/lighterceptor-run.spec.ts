@@ -36,4 +36,38 @@ describe("Lighterceptor run", () => {
       true,
     );
   });
+
+  it("records what fetch and xhr requests send", async () => {
+    const lighterceptor = new Lighterceptor(`<script>
+      fetch("https://example.com/collect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: "view" }),
+      });
+      const xhr = new XMLHttpRequest();
+      xhr.open("GET", "https://example.com/me");
+      xhr.setRequestHeader("Authorization", "Bearer token");
+      xhr.send();
+    </script>`);
+
+    const result = await lighterceptor.run();
+    const collect = result.requests.find((item) =>
+      item.url.endsWith("/collect"),
+    );
+    const me = result.requests.find((item) => item.url.endsWith("/me"));
+
+    expect(collect).toMatchObject({
+      source: "fetch",
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      credentials: "same-origin",
+      body: '{"event":"view"}',
+    });
+    expect(me).toMatchObject({
+      source: "xhr",
+      method: "GET",
+      headers: { authorization: "Bearer token" },
+      credentials: "same-origin",
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createMapFetcher,
+  Lighterceptor,
+  type ResourceFetcher,
+} from "../src/index";
+
+const chain = createMapFetcher({
+  "https://example.com/a.css": '@import "./b.css"; .a{background:url(a.png)}',
+  "https://example.com/b.css": '@import "./c.css"; .b{background:url(b.png)}',
+  "https://example.com/c.css": '@import "./d.css"; .c{background:url(c.png)}',
+  "https://example.com/d.css": ".d{background:url(d.png)}",
+});
+
+const html = `<link rel="stylesheet" href="https://example.com/a.css">`;
+
+describe("recursion limits", () => {
+  it("stamps each request with its discovery depth", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: chain,
+    }).run();
+
+    const depthOf = (url: string) =>
+      result.requests.find((item) => item.url === url)?.depth;
+
+    expect(depthOf("https://example.com/a.css")).toBe(0);
+    expect(depthOf("https://example.com/b.css")).toBe(1);
+    expect(depthOf("https://example.com/c.png")).toBe(3);
+    expect(depthOf("https://example.com/d.png")).toBe(4);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  it("stops following resources beyond maxDepth", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: chain,
+      maxDepth: 2,
+    }).run();
+
+    const urls = result.requests.map((item) => item.url);
+    expect(urls).toContain("https://example.com/c.css");
+    expect(urls).not.toContain("https://example.com/c.png");
+    expect(urls).not.toContain("https://example.com/d.css");
+    expect(result.truncated).toBe("maxDepth");
+  });
+
+  it("stops fetching after maxResources", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: chain,
+      maxResources: 1,
+    }).run();
+
+    const urls = result.requests.map((item) => item.url);
+    expect(urls).toContain("https://example.com/b.css");
+    expect(urls).not.toContain("https://example.com/b.png");
+    expect(result.truncated).toBe("maxResources");
+  });
+
+  it("caps the number of recorded requests", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: chain,
+      maxRequests: 3,
+    }).run();
+
+    expect(result.requests).toHaveLength(3);
+    expect(result.truncated).toBe("maxRequests");
+  });
+
+  it("stops once fetched bodies exceed maxBytes", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: chain,
+      maxBytes: 60,
+    }).run();
+
+    const urls = result.requests.map((item) => item.url);
+    expect(urls).toContain("https://example.com/a.png");
+    expect(urls).not.toContain("https://example.com/b.png");
+    expect(result.truncated).toBe("maxBytes");
+  });
+
+  it("stops work still in flight when a limit truncates the run", async () => {
+    let slowSignal: AbortSignal | undefined;
+    const fetcher: ResourceFetcher = (url, init) => {
+      if (url === "https://example.com/big.css") {
+        return chain("https://example.com/a.css", init);
+      }
+      slowSignal = init?.signal;
+      return new Promise(() => {});
+    };
+
+    const started = Date.now();
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/big.css">
+       <iframe src="https://example.com/slow.html"></iframe>`,
+      { recursion: true, fetcher, maxBytes: 10, timeoutMs: 5000 },
+    ).run();
+
+    expect(result.truncated).toBe("maxBytes");
+    expect(result.aborted).toBe(false);
+    expect(slowSignal?.aborted).toBe(true);
+    expect(Date.now() - started).toBeLessThan(4000);
+  });
+});
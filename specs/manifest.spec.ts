@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+describe("web app manifest", () => {
+  it("records the manifest and, with recursion, its icons and start url", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/app/site.webmanifest": {
+        body: JSON.stringify({
+          name: "Example",
+          start_url: "./?source=pwa",
+          icons: [
+            { src: "icons/192.png", sizes: "192x192" },
+            { src: "https://cdn.example.com/512.png", sizes: "512x512" },
+          ],
+          screenshots: [{ src: "/shots/home.webp" }],
+          shortcuts: [
+            {
+              name: "Inbox",
+              url: "/inbox",
+              icons: [{ src: "icons/inbox.png" }],
+            },
+          ],
+        }),
+        headers: { "content-type": "application/manifest+json" },
+      },
+    });
+    const html = `<link rel="manifest" href="https://example.com/app/site.webmanifest">`;
+
+    const shallow = await new Lighterceptor(html).run();
+    const deep = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher,
+    }).run();
+
+    expect(shallow.requests.map((item) => item.url)).toContain(
+      "https://example.com/app/site.webmanifest",
+    );
+    expect(
+      deep.requests
+        .filter((item) => item.discoveredBy.startsWith("manifest."))
+        .map((item) => [item.url, item.source, item.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/app/icons/192.png", "img", "manifest.icons"],
+      ["https://cdn.example.com/512.png", "img", "manifest.icons"],
+      ["https://example.com/shots/home.webp", "img", "manifest.screenshots"],
+      [
+        "https://example.com/app/icons/inbox.png",
+        "img",
+        "manifest.shortcuts.icons",
+      ],
+      [
+        "https://example.com/app/?source=pwa",
+        "navigation",
+        "manifest.start_url",
+      ],
+    ]);
+    expect(
+      deep.graph.nodes.find(
+        (node) => node.id === "https://example.com/app/site.webmanifest",
+      ),
+    ).toMatchObject({ kind: "manifest", fetched: true });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createJSDOMWithInterceptor,
+  type FetchOptions,
+  Lighterceptor,
+} from "../src/index";
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("navigation interception", () => {
+  it("records window.open, location changes and form.submit without navigating", async () => {
+    const seen: Array<[string, FetchOptions]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<form id="checkout" action="/pay"></form>
+      <script>
+        window.popup = window.open("https://partner.example.com/", "_blank");
+        location.assign("/assigned");
+        location.replace("https://example.com/replaced");
+        location.href = "/href";
+        window.location = "/window-location";
+        location.hash = "#section";
+        document.getElementById("checkout").submit();
+      </script>`,
+      domOptions: {
+        url: "https://example.com/page",
+        runScripts: "dangerously",
+      },
+      interceptor: (url, options) => {
+        seen.push([url, options]);
+        return Buffer.from("");
+      },
+    });
+
+    await wait(0);
+
+    expect(
+      seen.map(([url, options]) => [url, options.source, options.discoveredBy]),
+    ).toEqual([
+      ["https://partner.example.com/", "navigation", "window.open()"],
+      ["https://example.com/assigned", "navigation", "location.assign()"],
+      ["https://example.com/replaced", "navigation", "location.replace()"],
+      ["https://example.com/href", "navigation", "location.href"],
+      ["https://example.com/window-location", "navigation", "location.href"],
+      ["https://example.com/pay", "navigation", "form.submit()"],
+    ]);
+    expect(dom.window.location.href).toBe("https://example.com/page#section");
+    expect((dom.window as unknown as { popup: unknown }).popup).toBeNull();
+  });
+
+  it("records links, forms and meta refresh found in the document", async () => {
+    const result = await new Lighterceptor(
+      `<!doctype html>
+      <meta http-equiv="refresh" content="5; url='https://example.com/next'">
+      <meta http-equiv="refresh" content="30">
+      <a href="https://example.com/about">About</a>
+      <a href="#top">Top</a>
+      <a href="javascript:void(0)">Noop</a>
+      <map><area href="https://example.com/region" alt=""></map>
+      <form action="https://example.com/search"></form>`,
+    ).run();
+
+    expect(
+      result.requests
+        .filter((item) => item.source === "navigation")
+        .map((item) => [item.url, item.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/about", "a[href]"],
+      ["https://example.com/region", "area[href]"],
+      ["https://example.com/search", "form[action]"],
+      ["https://example.com/next", "meta[http-equiv=refresh]"],
+    ]);
+  });
+});
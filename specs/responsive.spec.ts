@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { Lighterceptor, matchesMediaQuery } from "../src/index";
+
+const html = `<!doctype html>
+  <link rel="preload" as="image" href="/hero.jpg"
+    imagesrcset="/hero-800.jpg 800w, /hero-1600.jpg 1600w" imagesizes="100vw">
+  <link rel="preload" as="image" href="/print.jpg" media="print">
+  <picture>
+    <source media="(min-width: 800px)" type="image/avif"
+      srcset="/wide.avif 1x, /wide@2x.avif 2x">
+    <source media="(prefers-color-scheme: dark)" srcset="/dark.png">
+    <img src="/fallback.jpg"
+      srcset="/small.jpg 400w, /medium.jpg 800w, /large.jpg 1600w"
+      sizes="(max-width: 600px) calc(100vw - 2rem), 50vw">
+  </picture>
+  <img src="/icon.png" srcset="/icon@2x.png 2x">`;
+
+const selectedUrls = async (device: {
+  width?: number;
+  height?: number;
+  devicePixelRatio?: number;
+  mediaFeatures?: Record<string, string>;
+}) => {
+  const result = await new Lighterceptor(html, {
+    baseUrl: "https://example.com/",
+    device,
+  }).run();
+  const selected = new Set(
+    result.requests.filter((item) => item.selected).map((item) => item.url),
+  );
+  return [...selected].map((url) => url.replace("https://example.com", ""));
+};
+
+describe("device emulation", () => {
+  it("marks the responsive candidates a device would fetch", async () => {
+    expect(await selectedUrls({ width: 1280, devicePixelRatio: 2 })).toEqual([
+      "/icon@2x.png",
+      "/wide@2x.avif",
+      "/hero-1600.jpg",
+    ]);
+    expect(await selectedUrls({ width: 375, devicePixelRatio: 2 })).toEqual([
+      "/medium.jpg",
+      "/icon@2x.png",
+      "/hero-800.jpg",
+    ]);
+    expect(
+      await selectedUrls({
+        width: 375,
+        mediaFeatures: { "prefers-color-scheme": "dark" },
+      }),
+    ).toEqual(["/icon.png", "/dark.png", "/hero-800.jpg"]);
+  });
+
+  it("keeps every candidate and leaves them unmarked without a device", async () => {
+    const result = await new Lighterceptor(html, {
+      baseUrl: "https://example.com/",
+    }).run();
+
+    expect(new Set(result.requests.map((item) => item.url)).size).toBe(13);
+    expect(result.requests.some((item) => "selected" in item)).toBe(false);
+  });
+
+  it("labels srcset candidates by the attribute they came from", async () => {
+    const result = await new Lighterceptor(
+      `${html}
+      <script>
+        const late = document.createElement("img");
+        late.srcset = "/late.png 1x, /late@2x.png 2x";
+        document.body.append(late);
+      </script>`,
+      { baseUrl: "https://example.com/", executeScripts: true },
+    ).run();
+
+    const labels = new Map<string, Set<string>>();
+    for (const item of result.requests) {
+      const url = item.url.replace("https://example.com", "");
+      labels.set(url, (labels.get(url) ?? new Set()).add(item.discoveredBy));
+    }
+
+    expect(labels.get("/wide@2x.avif")).toEqual(new Set(["source[srcset]"]));
+    expect(labels.get("/medium.jpg")).toEqual(new Set(["img[srcset]"]));
+    expect(labels.get("/late@2x.png")).toEqual(new Set(["img[srcset]"]));
+    expect(labels.get("/hero-800.jpg")).toEqual(new Set(["link[imagesrcset]"]));
+    expect(labels.get("/fallback.jpg")).toEqual(new Set(["img[src]"]));
+  });
+
+  it("answers matchMedia in the page from the device", async () => {
+    const result = await new Lighterceptor(
+      `<script>
+        const small = matchMedia("(max-width: 600px)").matches;
+        const dark = matchMedia("(prefers-color-scheme: dark)").matches;
+        document.title = [innerWidth, devicePixelRatio, small, dark].join();
+      </script>`,
+      {
+        device: {
+          width: 390,
+          height: 844,
+          devicePixelRatio: 3,
+          mediaFeatures: { "prefers-color-scheme": "dark" },
+        },
+      },
+    ).run();
+
+    expect(result.title).toBe("390,3,true,true");
+  });
+
+  it("evaluates media query lists", () => {
+    const phone = { width: 390, height: 844, devicePixelRatio: 3 };
+
+    expect(matchesMediaQuery("", phone)).toBe(true);
+    expect(matchesMediaQuery("screen and (max-width: 40em)", phone)).toBe(true);
+    expect(matchesMediaQuery("print, (orientation: portrait)", phone)).toBe(
+      true,
+    );
+    expect(matchesMediaQuery("not screen", phone)).toBe(false);
+    expect(matchesMediaQuery("(400px <= width <= 800px)", phone)).toBe(false);
+    expect(matchesMediaQuery("(min-resolution: 2dppx)", phone)).toBe(true);
+    expect(
+      matchesMediaQuery("(-webkit-min-device-pixel-ratio: 2)", phone),
+    ).toBe(true);
+    expect(matchesMediaQuery("(hover) and (pointer: fine)", phone)).toBe(true);
+    expect(matchesMediaQuery("not ((hover) or (height > 900px))", phone)).toBe(
+      false,
+    );
+    expect(matchesMediaQuery("(unknown-feature)", phone)).toBe(false);
+  });
+});
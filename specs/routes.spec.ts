@@ -0,0 +1,121 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  createJSDOMWithInterceptor,
+  createRouteTable,
+  Lighterceptor,
+} from "../src/index";
+
+describe("route tables", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "lighterceptor-routes-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("serves recursion from globs, regexes and files", async () => {
+    await writeFile(
+      path.join(directory, "app.js"),
+      `fetch("https://api.example.com/users?page=1");`,
+    );
+    const routes = createRouteTable(
+      [
+        { url: "https://example.com/**.css", body: "@import '/theme.css';" },
+        { url: "/theme.css", body: "a { background: url(/bg.png); }" },
+        { url: "https://example.com/js/*.js", file: "app.js" },
+        { url: /\/users\?/, status: 503, body: "{}" },
+      ],
+      { directory },
+    );
+
+    const result = await new Lighterceptor(
+      `<link rel="stylesheet" href="https://example.com/css/site.css">
+       <script src="https://example.com/js/app.js"></script>
+       <iframe src="https://example.com/frame.html"></iframe>`,
+      { recursion: true, fetcher: routes.fetcher },
+    ).run();
+
+    expect(result.responses["https://example.com/css/site.css"].body).toBe(
+      "@import '/theme.css';",
+    );
+    expect(result.responses["https://example.com/theme.css"].headers).toEqual({
+      "content-type": "text/css",
+    });
+    expect(result.responses["https://example.com/js/app.js"]).toMatchObject({
+      status: 200,
+      headers: { "content-type": "application/javascript" },
+    });
+    expect(result.requests.map((item) => item.url)).toContain(
+      "https://api.example.com/users?page=1",
+    );
+    expect(routes.unmatched).toEqual([
+      { method: "GET", url: "https://example.com/frame.html" },
+    ]);
+  });
+
+  it("answers the interceptor by method and reports the rest", async () => {
+    const unmatched: string[] = [];
+    const routes = createRouteTable(
+      [
+        { url: "https://api.example.com/**", method: "POST", body: "saved" },
+        { url: "/pixel.gif", delayMs: 5, body: "GIF89a" },
+      ],
+      {
+        onUnmatched: (request) =>
+          unmatched.push(`${request.method} ${request.url}`),
+      },
+    );
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<img src="https://example.com/pixel.gif">`,
+      interceptor: routes.interceptor,
+    });
+
+    await expect(
+      Promise.resolve(
+        routes.interceptor("https://api.example.com/items", {
+          method: "post",
+        }),
+      ),
+    ).resolves.toBe("saved");
+    await expect(
+      Promise.resolve(
+        routes.interceptor("https://example.com/pixel.gif", { source: "img" }),
+      ),
+    ).resolves.toBe("GIF89a");
+    await routes.interceptor("https://api.example.com/items", {});
+    await routes.interceptor("/items", {
+      referrer: "https://api.example.com/app/",
+    });
+
+    await expect(
+      Promise.resolve(
+        routes.interceptor("pixel.gif", {
+          referrer: "https://example.com/page.html",
+        }),
+      ),
+    ).resolves.toBe("GIF89a");
+    await expect(
+      Promise.resolve(
+        routes.interceptor("/items", {
+          method: "POST",
+          referrer: "https://api.example.com/app/",
+        }),
+      ),
+    ).resolves.toBe("saved");
+
+    expect(unmatched).toEqual(["GET https://api.example.com/items"]);
+    expect(routes.unmatched).toEqual([
+      { method: "GET", url: "https://api.example.com/items" },
+    ]);
+    dom.window.close();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import { createMapFetcher, Lighterceptor } from "../src/index";
+
+const fetcher = createMapFetcher({
+  "https://example.com/site.css": '@import "./theme.css";',
+  "https://example.com/theme.css": ".t{background:url(./theme.png)}",
+  "https://example.com/app.js": 'import "./feature.js";',
+  "https://example.com/feature.js": 'fetch("/api/feature");',
+  "https://cdn.example.com/lib.js": 'import "./lib-chunk.js";',
+  "https://sdk.tracker.io/sdk.js": 'fetch("https://sdk.tracker.io/collect");',
+});
+
+const html = `
+  <link rel="stylesheet" href="https://example.com/site.css">
+  <script src="https://example.com/app.js"></script>
+  <script src="https://cdn.example.com/lib.js"></script>
+  <script src="https://sdk.tracker.io/sdk.js"></script>
+`;
+
+const run = (scope: ConstructorParameters<typeof Lighterceptor>[1]) =>
+  new Lighterceptor(html, { recursion: true, fetcher, ...scope }).run();
+
+const urlsOf = (result: { requests: { url: string }[] }) =>
+  result.requests.map((item) => item.url);
+
+describe("recursion scope", () => {
+  it("follows only same-origin resources", async () => {
+    const urls = urlsOf(
+      await run({
+        scope: {
+          origin: "https://example.com",
+          follow: { sameOrigin: true },
+        },
+      }),
+    );
+
+    expect(urls).toContain("https://example.com/feature.js");
+    expect(urls).toContain("https://sdk.tracker.io/sdk.js");
+    expect(urls).not.toContain("https://sdk.tracker.io/collect");
+    expect(urls).not.toContain("https://cdn.example.com/lib-chunk.js");
+  });
+
+  it("follows hosts from an allowlist with wildcards", async () => {
+    const urls = urlsOf(
+      await run({ scope: { follow: { hosts: ["*.example.com"] } } }),
+    );
+
+    expect(urls).toContain("https://cdn.example.com/lib-chunk.js");
+    expect(urls).not.toContain("https://example.com/feature.js");
+    expect(urls).not.toContain("https://sdk.tracker.io/collect");
+  });
+
+  it("applies glob and regex include and exclude patterns", async () => {
+    const urls = urlsOf(
+      await run({
+        scope: {
+          follow: {
+            include: ["https://*.com/**"],
+            exclude: [/feature/],
+          },
+        },
+      }),
+    );
+
+    expect(urls).toContain("https://example.com/feature.js");
+    expect(urls).not.toContain("https://example.com/api/feature");
+    expect(urls).toContain("https://cdn.example.com/lib-chunk.js");
+    expect(urls).not.toContain("https://sdk.tracker.io/collect");
+  });
+
+  it("toggles following per resource kind", async () => {
+    const urls = urlsOf(
+      await run({ scope: { follow: { kinds: { css: false } } } }),
+    );
+
+    expect(urls).not.toContain("https://example.com/theme.css");
+    expect(urls).toContain("https://example.com/feature.js");
+  });
+
+  it("filters what is recorded separately from what is followed", async () => {
+    const urls = urlsOf(
+      await run({
+        scope: {
+          record: { exclude: ["**.css"] },
+        },
+      }),
+    );
+
+    expect(urls).not.toContain("https://example.com/site.css");
+    expect(urls).not.toContain("https://example.com/theme.css");
+    expect(urls).toContain("https://example.com/theme.png");
+  });
+});
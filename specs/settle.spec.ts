@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { Lighterceptor } from "../src/index";
+
+const urlsOf = (result: { requests: { url: string }[] }) =>
+  result.requests.map((item) => item.url);
+
+describe("network-idle settling", () => {
+  it("waits for timers that fire after the fixed settle time", async () => {
+    const html = `<script>
+      setTimeout(() => fetch("https://example.com/late"), 80);
+    </script>`;
+
+    const fixed = await new Lighterceptor(html).run();
+    const idle = await new Lighterceptor(html, {
+      settle: { strategy: "idle", idleMs: 20 },
+    }).run();
+
+    expect(urlsOf(fixed)).not.toContain("https://example.com/late");
+    expect(urlsOf(idle)).toContain("https://example.com/late");
+  });
+
+  it("follows fetch chains and nested timers", async () => {
+    const html = `<script>
+      fetch("https://example.com/first").then(() => {
+        setTimeout(() => {
+          fetch("https://example.com/second").then(() =>
+            fetch("https://example.com/third"),
+          );
+        }, 30);
+      });
+    </script>`;
+
+    const result = await new Lighterceptor(html, {
+      settle: { strategy: "idle", idleMs: 10 },
+    }).run();
+
+    expect(urlsOf(result)).toEqual(
+      expect.arrayContaining([
+        "https://example.com/first",
+        "https://example.com/second",
+        "https://example.com/third",
+      ]),
+    );
+  });
+
+  it("finishes static pages as soon as they are idle", async () => {
+    const startedAt = Date.now();
+
+    await new Lighterceptor(`<img src="https://example.com/a.png">`, {
+      settleTimeMs: 5_000,
+      settle: { strategy: "idle", idleMs: 10 },
+    }).run();
+
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+
+  it("ignores cleared timers and stops at the hard cap", async () => {
+    const html = `<script>
+      const id = setTimeout(() => fetch("https://example.com/never"), 20);
+      clearTimeout(id);
+      setTimeout(() => fetch("https://example.com/too-late"), 10_000);
+    </script>`;
+    const startedAt = Date.now();
+
+    const result = await new Lighterceptor(html, {
+      settle: { strategy: "idle", idleMs: 10, maxMs: 100 },
+    }).run();
+
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+    expect(urlsOf(result)).not.toContain("https://example.com/never");
+    expect(urlsOf(result)).not.toContain("https://example.com/too-late");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createMapFetcher,
+  Lighterceptor,
+  type LighterceptorEvent,
+  type LighterceptorResult,
+  type RequestRecord,
+  type ResourceFetcher,
+} from "../src/index";
+
+const resources = {
+  "https://example.com/site.css": '@import "./theme.css";',
+  "https://example.com/theme.css": ".t{background:url(./theme.png)}",
+  "https://example.com/frame.html": '<img src="/frame.png">',
+};
+
+const html = `
+  <title>Streamed</title>
+  <link rel="stylesheet" href="https://example.com/site.css">
+  <iframe src="https://example.com/frame.html"></iframe>
+`;
+
+describe("Lighterceptor stream", () => {
+  it("yields requests and lifecycle events in result order", async () => {
+    const events: LighterceptorEvent[] = [];
+    const lighterceptor = new Lighterceptor(html, {
+      recursion: true,
+      fetcher: createMapFetcher(resources),
+    });
+
+    for await (const event of lighterceptor.stream()) {
+      events.push(event);
+    }
+
+    const finished = events.at(-1);
+    expect(finished?.type).toBe("finished");
+    if (finished?.type !== "finished") {
+      return;
+    }
+
+    const streamed = events.flatMap((event) =>
+      event.type === "request" ? [event.request] : [],
+    );
+    expect(streamed).toEqual(finished.result.requests);
+
+    expect(events).toContainEqual({
+      type: "document",
+      depth: 0,
+      title: "Streamed",
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "resource",
+        url: "https://example.com/theme.css",
+        depth: 2,
+        kind: "css",
+      }),
+    );
+    expect(events).toContainEqual({
+      type: "document",
+      url: "https://example.com/frame.html",
+      depth: 1,
+    });
+  });
+
+  it("streams exactly the requests a truncated run keeps", async () => {
+    const mapFetcher = createMapFetcher(resources);
+    // The frame loads last, so maxBytes cuts it off while it is in flight.
+    const fetcher: ResourceFetcher = async (url, init) => {
+      if (url.endsWith("frame.html")) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      return init?.signal?.aborted ? null : mapFetcher(url);
+    };
+
+    for (const limits of [{ maxRequests: 3 }, { maxBytes: 10 }]) {
+      const streamed: RequestRecord[] = [];
+      let result: LighterceptorResult | undefined;
+      for await (const event of new Lighterceptor(html, {
+        recursion: true,
+        fetcher,
+        ...limits,
+      }).stream()) {
+        if (event.type === "request") {
+          streamed.push(event.request);
+        } else if (event.type === "finished") {
+          result = event.result;
+        }
+      }
+
+      expect(result?.truncated).toBeDefined();
+      expect(streamed).toEqual(result?.requests);
+    }
+  });
+
+  it("stops loading resources when the consumer breaks out early", async () => {
+    const fetched: string[] = [];
+    const mapFetcher = createMapFetcher(resources);
+    const fetcher: ResourceFetcher = (url) => {
+      fetched.push(url);
+      return mapFetcher(url);
+    };
+
+    const lighterceptor = new Lighterceptor(html, {
+      recursion: true,
+      fetcher,
+      concurrency: 1,
+    });
+
+    for await (const event of lighterceptor.stream()) {
+      if (event.type === "resource") {
+        break;
+      }
+    }
+
+    expect(fetched).not.toContain("https://example.com/theme.css");
+  });
+
+  it("still resolves run() with the full result", async () => {
+    const result = await new Lighterceptor(html, {
+      recursion: true,
+      fetcher: createMapFetcher(resources),
+    }).run();
+
+    expect(result.requests.map((item) => item.url)).toContain(
+      "https://example.com/theme.png",
+    );
+  });
+});
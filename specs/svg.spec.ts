@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createJSDOMWithInterceptor,
+  createMapFetcher,
+  type FetchOptions,
+  Lighterceptor,
+} from "../src/index";
+
+describe("svg references", () => {
+  it("finds references in inline svg and follows external sprites", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/icons/sprite.svg": `<?xml version="1.0"?>
+        <svg xmlns="http://www.w3.org/2000/svg"
+          xmlns:xlink="http://www.w3.org/1999/xlink">
+          <style>.bg { fill: url(patterns.svg#dots); }</style>
+          <symbol id="logo"><image xlink:href="logo.png"/></symbol>
+          <use href="#logo"/>
+        </svg>`,
+    });
+
+    const result = await new Lighterceptor(
+      `<!doctype html>
+      <svg xmlns:xlink="http://www.w3.org/1999/xlink">
+        <style>@import url(https://example.com/svg.css);</style>
+        <image href="https://example.com/photo.jpg"/>
+        <use xlink:href="https://example.com/icons/sprite.svg#logo"/>
+        <use href="#local"/>
+        <filter id="f"><feImage href="https://example.com/texture.png"/></filter>
+        <script href="https://example.com/chart.js"></script>
+      </svg>`,
+      { recursion: true, fetcher },
+    ).run();
+
+    const records = result.requests.map((item) => [
+      item.url,
+      item.source,
+      item.discoveredBy,
+    ]);
+    expect(records).toEqual(
+      expect.arrayContaining([
+        ["https://example.com/svg.css", "css", "@import"],
+        ["https://example.com/photo.jpg", "img", "image[href]"],
+        ["https://example.com/icons/sprite.svg", "resource", "use[xlink:href]"],
+        ["https://example.com/texture.png", "img", "feImage[href]"],
+        ["https://example.com/chart.js", "resource", "script[href]"],
+        ["https://example.com/icons/patterns.svg#dots", "css", "url()"],
+        ["https://example.com/icons/logo.png", "img", "image[xlink:href]"],
+      ]),
+    );
+    expect(records.some(([url]) => url?.includes("#local"))).toBe(false);
+    expect(
+      result.graph.nodes.find(
+        (node) => node.id === "https://example.com/icons/sprite.svg",
+      ),
+    ).toMatchObject({ kind: "svg", fetched: true });
+  });
+
+  it("analyzes svg input", async () => {
+    const result = await new Lighterceptor(
+      `<svg xmlns="http://www.w3.org/2000/svg"><image href="/a.png"/></svg>`,
+      { baseUrl: "https://example.com/img/icon.svg" },
+    ).run();
+
+    expect(result.requests.map((item) => item.url)).toEqual([
+      "https://example.com/a.png",
+    ]);
+  });
+
+  it("treats markup that only starts with an svg as html", async () => {
+    const urlsOf = async (input: string) => {
+      const result = await new Lighterceptor(input, {
+        baseUrl: "https://example.com/",
+      }).run();
+      return [...new Set(result.requests.map((item) => item.url))];
+    };
+
+    expect(
+      await urlsOf(
+        `<svg width="10"><circle r="1"/></svg><img src="a.png"><script>fetch("b")</script>`,
+      ),
+    ).toEqual(
+      expect.arrayContaining([
+        "https://example.com/a.png",
+        "https://example.com/b",
+      ]),
+    );
+    expect(await urlsOf(`<svg><image href="x.png"/></svg>`)).toEqual([
+      "https://example.com/x.png",
+    ]);
+    expect(
+      await urlsOf(
+        `<svg xmlns="http://www.w3.org/2000/svg"><svg/></svg>\n<img src="c.png">`,
+      ),
+    ).toEqual(["https://example.com/c.png"]);
+  });
+
+  it("intercepts href changes made with setAttribute and setAttributeNS", () => {
+    const seen: Array<[string, FetchOptions]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<svg></svg>`,
+      interceptor: (url, options) => {
+        seen.push([url, options]);
+        return Buffer.from("");
+      },
+    });
+
+    const { document } = dom.window;
+    const svgNamespace = "http://www.w3.org/2000/svg";
+    const image = document.createElementNS(svgNamespace, "image");
+    image.setAttribute("href", "https://example.com/a.png");
+    image.setAttributeNS(
+      "http://www.w3.org/1999/xlink",
+      "xlink:href",
+      "https://example.com/b.png",
+    );
+    const use = document.createElementNS(svgNamespace, "use");
+    use.setAttributeNS(null, "href", "https://example.com/sprite.svg#icon");
+    use.setAttribute("href", "#icon");
+    use.setAttribute("xlink:href", "https://example.com/legacy.svg#icon");
+    image.setAttribute("xlink:href", "https://example.com/c.png");
+
+    expect(
+      seen.map(([url, options]) => [url, options.source, options.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/a.png", "img", "image[href]"],
+      ["https://example.com/b.png", "img", "image[xlink:href]"],
+      ["https://example.com/sprite.svg", "resource", "use[href]"],
+      ["https://example.com/legacy.svg", "resource", "use[xlink:href]"],
+      ["https://example.com/c.png", "img", "image[xlink:href]"],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { Lighterceptor } from "../src/index";
+
+describe("virtual time", () => {
+  it("flushes delayed requests without waiting in real time", async () => {
+    const html = `<script>
+      setTimeout(() => fetch("https://example.com/analytics"), 3000);
+      setTimeout(() => fetch("https://example.com/beyond"), 60000);
+    </script>`;
+    const startedAt = Date.now();
+
+    const result = await new Lighterceptor(html, {
+      virtualTimeMs: 10_000,
+    }).run();
+
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+    expect(result.requests).toEqual([
+      expect.objectContaining({
+        url: "https://example.com/analytics",
+        source: "fetch",
+        virtualTime: 3000,
+      }),
+    ]);
+  });
+
+  it("runs intervals, nested timers and animation frames in order", async () => {
+    const html = `<script>
+      let tick = 0;
+      const id = setInterval(() => {
+        tick += 1;
+        fetch("https://example.com/poll?" + tick);
+        if (tick === 3) {
+          clearInterval(id);
+        }
+      }, 1000);
+      fetch("https://example.com/first").then(() => {
+        setTimeout(() => fetch("https://example.com/chained"), 1500);
+      });
+      requestAnimationFrame(() => fetch("https://example.com/frame"));
+    </script>`;
+
+    const result = await new Lighterceptor(html, {
+      virtualTimeMs: 5000,
+    }).run();
+
+    expect(
+      result.requests.map((request) => [request.url, request.virtualTime]),
+    ).toEqual([
+      ["https://example.com/first", 0],
+      ["https://example.com/frame", 16],
+      ["https://example.com/poll?1", 1000],
+      ["https://example.com/chained", 1500],
+      ["https://example.com/poll?2", 2000],
+      ["https://example.com/poll?3", 3000],
+    ]);
+  });
+
+  it("advances Date.now and performance.now with the clock", async () => {
+    const html = `<script>
+      const startedAt = Date.now();
+      const perfStart = performance.now();
+      setTimeout(() => {
+        fetch("https://example.com/elapsed?" + (Date.now() - startedAt));
+        fetch("https://example.com/perf?" + (performance.now() - perfStart));
+      }, 2500);
+    </script>`;
+
+    const result = await new Lighterceptor(html, {
+      virtualTimeMs: 3000,
+    }).run();
+
+    expect(result.requests.map((request) => request.url)).toEqual([
+      "https://example.com/elapsed?2500",
+      "https://example.com/perf?2500",
+    ]);
+  });
+
+  it("leaves records unstamped without virtual time", async () => {
+    const result = await new Lighterceptor(
+      `<img src="https://example.com/a.png">`,
+    ).run();
+
+    expect(result.requests[0]).not.toHaveProperty("virtualTime");
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createJSDOMWithInterceptor,
+  createMapFetcher,
+  type FetchOptions,
+  Lighterceptor,
+} from "../src/index";
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("worker interception", () => {
+  it("stubs Worker, SharedWorker and service worker registration", async () => {
+    const seen: Array<[string, FetchOptions]> = [];
+
+    const dom = createJSDOMWithInterceptor({
+      html: `<script>
+        window.worker = new Worker("/w.js", { type: "module" });
+        window.shared = new SharedWorker("https://cdn.example.com/s.js");
+        window.registration = navigator.serviceWorker.register("/sw.js", {
+          scope: "/app/",
+        });
+      </script>`,
+      domOptions: {
+        url: "https://example.com/page",
+        runScripts: "dangerously",
+      },
+      interceptor: (url, options) => {
+        seen.push([url, options]);
+        return Buffer.from("");
+      },
+    });
+
+    await wait(0);
+
+    expect(
+      seen.map(([url, options]) => [url, options.source, options.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/w.js", "worker", "new Worker()"],
+      ["https://cdn.example.com/s.js", "worker", "new SharedWorker()"],
+      [
+        "https://example.com/sw.js",
+        "worker",
+        "navigator.serviceWorker.register()",
+      ],
+    ]);
+
+    const window = dom.window as unknown as {
+      worker: Worker;
+      shared: SharedWorker;
+      registration: Promise<ServiceWorkerRegistration>;
+    };
+    expect(() => window.worker.postMessage("hi")).not.toThrow();
+    expect(typeof window.shared.port.postMessage).toBe("function");
+    await expect(window.registration).resolves.toMatchObject({
+      scope: "https://example.com/app/",
+      active: null,
+    });
+  });
+
+  it("analyzes worker scripts and their importScripts in recursion", async () => {
+    const fetcher = createMapFetcher({
+      "https://example.com/worker.js": `
+        importScripts("https://example.com/lib.js");
+        fetch("https://example.com/api/jobs");
+      `,
+      "https://example.com/lib.js": `fetch("https://example.com/api/lib");`,
+      "https://example.com/sw.js": `self.addEventListener("fetch", () => {});`,
+    });
+
+    const result = await new Lighterceptor(
+      `<script>
+        new Worker("https://example.com/worker.js");
+        navigator.serviceWorker.register("https://example.com/sw.js");
+      </script>`,
+      { recursion: true, fetcher },
+    ).run();
+
+    expect(
+      result.requests.map((item) => [item.url, item.source, item.initiator]),
+    ).toEqual([
+      ["https://example.com/worker.js", "worker", "document"],
+      ["https://example.com/sw.js", "worker", "document"],
+      [
+        "https://example.com/lib.js",
+        "resource",
+        "https://example.com/worker.js",
+      ],
+      [
+        "https://example.com/api/jobs",
+        "fetch",
+        "https://example.com/worker.js",
+      ],
+      ["https://example.com/api/lib", "fetch", "https://example.com/lib.js"],
+    ]);
+  });
+
+  it("finds workers in JavaScript input", async () => {
+    const result = await new Lighterceptor(`
+      const worker = new Worker("https://example.com/a.js");
+      const shared = new SharedWorker('https://example.com/b.js');
+      navigator.serviceWorker.register("https://example.com/sw.js");
+    `).run();
+
+    expect(
+      result.requests.map((item) => [item.url, item.discoveredBy]),
+    ).toEqual([
+      ["https://example.com/a.js", "new Worker()"],
+      ["https://example.com/b.js", "new SharedWorker()"],
+      ["https://example.com/sw.js", "navigator.serviceWorker.register()"],
+    ]);
+  });
+});
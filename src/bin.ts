@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+import { runCli } from "./cli.js";
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  signal: controller.signal,
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
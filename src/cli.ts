@@ -0,0 +1,481 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { createDirectoryFetcher, createGlobalFetcher } from "./fetchers.js";
+import { createHarFetcher, toHar, type Har } from "./har.js";
+import type { ImportMap } from "./import-map.js";
+import {
+  Lighterceptor,
+  type LighterceptorOptions,
+  type LighterceptorResult,
+} from "./lighterceptor.js";
+import type { DeviceOptions } from "./responsive.js";
+import type { ScopeRule } from "./scope.js";
+import type { SettleOptions } from "./settle.js";
+import type { ResourceFetcher, ResourceKind } from "./types.js";
+
+export type CliIO = {
+  stdin: AsyncIterable<string | Buffer> & { isTTY?: boolean };
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  signal?: AbortSignal;
+};
+
+export type CliFormat = "json" | "ndjson" | "table" | "har";
+
+type ParsedCli = {
+  input?: string;
+  format: CliFormat;
+  options: LighterceptorOptions;
+};
+
+class CliUsageError extends Error {}
+
+const FORMATS: CliFormat[] = ["json", "ndjson", "table", "har"];
+const KINDS: ResourceKind[] = ["html", "css", "js", "svg", "manifest"];
+
+const CLI_OPTIONS = {
+  help: { type: "boolean", short: "h" },
+  format: { type: "string", short: "f" },
+  "settle-time-ms": { type: "string" },
+  settle: { type: "string" },
+  "idle-ms": { type: "string" },
+  "max-settle-ms": { type: "string" },
+  "virtual-time-ms": { type: "string" },
+  recursion: { type: "boolean", short: "r" },
+  "execute-scripts": { type: "boolean" },
+  "import-map": { type: "string" },
+  "base-url": { type: "string" },
+  viewport: { type: "string" },
+  "device-pixel-ratio": { type: "string" },
+  "media-feature": { type: "string", multiple: true },
+  "max-depth": { type: "string" },
+  "max-resources": { type: "string" },
+  "max-requests": { type: "string" },
+  "max-bytes": { type: "string" },
+  concurrency: { type: "string" },
+  "per-host-concurrency": { type: "string" },
+  "timeout-ms": { type: "string" },
+  "scope-origin": { type: "string" },
+  "record-same-origin": { type: "boolean" },
+  "record-host": { type: "string", multiple: true },
+  "record-include": { type: "string", multiple: true },
+  "record-exclude": { type: "string", multiple: true },
+  "record-skip-kind": { type: "string", multiple: true },
+  "follow-same-origin": { type: "boolean" },
+  "follow-host": { type: "string", multiple: true },
+  "follow-include": { type: "string", multiple: true },
+  "follow-exclude": { type: "string", multiple: true },
+  "follow-skip-kind": { type: "string", multiple: true },
+  "fixtures-dir": { type: "string" },
+  "fixtures-origin": { type: "string" },
+  har: { type: "string" },
+} as const;
+
+const USAGE = `Usage: lighterceptor [options] [file | url | -]
+
+Capture the requests an HTML, CSS or JS payload would trigger.
+Reads from stdin when no input is given or the input is "-".
+
+Output:
+  -f, --format <format>          json (default), ndjson, table or har
+
+Run options:
+      --settle-time-ms <ms>      wait for script-driven requests
+      --settle <strategy>        fixed (default) or idle
+      --idle-ms <ms>             quiet period that counts as idle
+      --max-settle-ms <ms>       hard cap for the idle strategy
+      --virtual-time-ms <ms>     fast-forward timers by this much virtual time
+  -r, --recursion                fetch and analyze discovered resources
+      --execute-scripts          run fetched scripts to capture runtime URLs
+      --import-map <file>        resolve bare import specifiers with this map
+      --base-url <url>           URL the input was loaded from (URL inputs
+                                 default to their own)
+      --viewport <w>x<h>         emulate this viewport and mark the responsive
+                                 image candidates it would fetch
+      --device-pixel-ratio <n>   emulate this pixel density
+      --media-feature <name=value>
+                                 set a media feature, e.g.
+                                 prefers-color-scheme=dark (repeatable)
+      --max-depth <n>            maximum recursion depth
+      --max-resources <n>        maximum resources fetched
+      --max-requests <n>         maximum requests recorded
+      --max-bytes <n>            maximum bytes fetched
+      --concurrency <n>          resources processed at once
+      --per-host-concurrency <n> resources processed at once per host
+      --timeout-ms <ms>          abort the run and print a partial result
+
+Scope options (repeatable where a value is taken):
+      --scope-origin <origin>    origin used by the same-origin rules
+      --record-same-origin       only record same-origin requests
+      --record-host <host>       only record these hosts ("*.example.com")
+      --record-include <glob>    only record matching URLs
+      --record-exclude <glob>    do not record matching URLs
+      --record-skip-kind <kind>  skip html, css, js, svg or manifest URLs
+      --follow-same-origin       only follow same-origin resources
+      --follow-host <host>       only follow these hosts
+      --follow-include <glob>    only follow matching URLs
+      --follow-exclude <glob>    do not follow matching URLs
+      --follow-skip-kind <kind>  skip html, css, js, svg or manifest resources
+
+Fetcher options:
+      --fixtures-dir <dir>       serve recursion from a local directory
+      --fixtures-origin <origin> origin mapped onto --fixtures-dir
+      --har <file>               serve recursion from a HAR file
+
+  -h, --help                     show this message
+`;
+
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  let parsed: ParsedCli | undefined;
+  try {
+    parsed = await parseCliArgs(args);
+  } catch (error) {
+    if (error instanceof CliUsageError || isParseArgsError(error)) {
+      io.stderr.write(`lighterceptor: ${(error as Error).message}\n\n`);
+      io.stderr.write(USAGE);
+      return 2;
+    }
+    io.stderr.write(`lighterceptor: ${formatError(error)}\n`);
+    return 1;
+  }
+
+  if (!parsed) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+
+  try {
+    const input = await readInput(parsed.input, io);
+    const lighterceptor = new Lighterceptor(input.text, {
+      baseUrl: input.url,
+      ...parsed.options,
+      signal: io.signal,
+    });
+    let aborted = false;
+    if (parsed.format === "ndjson") {
+      for await (const event of lighterceptor.stream()) {
+        if (event.type === "request") {
+          io.stdout.write(`${JSON.stringify(event.request)}\n`);
+        } else if (event.type === "finished") {
+          aborted = event.result.aborted;
+        }
+      }
+    } else {
+      const result = await lighterceptor.run();
+      aborted = result.aborted;
+      io.stdout.write(formatResult(result, parsed.format));
+    }
+    if (aborted) {
+      io.stderr.write("lighterceptor: run aborted, output is partial\n");
+      return 1;
+    }
+    return 0;
+  } catch (error) {
+    io.stderr.write(`lighterceptor: ${formatError(error)}\n`);
+    return 1;
+  }
+}
+
+export function formatResult(result: LighterceptorResult, format: CliFormat) {
+  if (format === "json") {
+    return `${JSON.stringify(result, null, 2)}\n`;
+  }
+  if (format === "har") {
+    return `${JSON.stringify(toHar(result), null, 2)}\n`;
+  }
+  if (format === "ndjson") {
+    return result.requests
+      .map((request) => `${JSON.stringify(request)}\n`)
+      .join("");
+  }
+  return formatTable(result);
+}
+
+async function parseCliArgs(args: string[]): Promise<ParsedCli | undefined> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: CLI_OPTIONS,
+    allowPositionals: true,
+    strict: true,
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals.length > 1) {
+    throw new CliUsageError("expected a single input");
+  }
+
+  const format = (values.format ?? "json") as CliFormat;
+  if (!FORMATS.includes(format)) {
+    throw new CliUsageError(`unknown format "${values.format}"`);
+  }
+
+  const options: LighterceptorOptions = {
+    settleTimeMs: parseCount(values["settle-time-ms"], "--settle-time-ms"),
+    settle: parseSettle(
+      values.settle,
+      parseCount(values["idle-ms"], "--idle-ms"),
+      parseCount(values["max-settle-ms"], "--max-settle-ms"),
+    ),
+    virtualTimeMs: parseCount(values["virtual-time-ms"], "--virtual-time-ms"),
+    recursion: values.recursion,
+    executeScripts: values["execute-scripts"],
+    baseUrl: values["base-url"],
+    device: parseDevice(
+      values.viewport,
+      values["device-pixel-ratio"],
+      values["media-feature"],
+    ),
+    importMap: values["import-map"]
+      ? (JSON.parse(await readFile(values["import-map"], "utf8")) as ImportMap)
+      : undefined,
+    maxDepth: parseCount(values["max-depth"], "--max-depth"),
+    maxResources: parseCount(values["max-resources"], "--max-resources"),
+    maxRequests: parseCount(values["max-requests"], "--max-requests"),
+    maxBytes: parseCount(values["max-bytes"], "--max-bytes"),
+    concurrency: parseCount(values.concurrency, "--concurrency"),
+    perHostConcurrency: parseCount(
+      values["per-host-concurrency"],
+      "--per-host-concurrency",
+    ),
+    timeoutMs: parseCount(values["timeout-ms"], "--timeout-ms"),
+    fetcher: await createCliFetcher(
+      values["fixtures-dir"],
+      values["fixtures-origin"],
+      values.har,
+    ),
+  };
+
+  const record = toScopeRule({
+    sameOrigin: values["record-same-origin"],
+    hosts: values["record-host"],
+    include: values["record-include"],
+    exclude: values["record-exclude"],
+    skipKinds: values["record-skip-kind"],
+  });
+  const follow = toScopeRule({
+    sameOrigin: values["follow-same-origin"],
+    hosts: values["follow-host"],
+    include: values["follow-include"],
+    exclude: values["follow-exclude"],
+    skipKinds: values["follow-skip-kind"],
+  });
+  if (record || follow || values["scope-origin"]) {
+    options.scope = {
+      origin: values["scope-origin"],
+      record,
+      follow,
+    };
+  }
+
+  return {
+    input: positionals[0],
+    format,
+    options: dropUndefined(options),
+  };
+}
+
+function parseCount(value: string | undefined, flag: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new CliUsageError(`${flag} expects a non-negative integer`);
+  }
+  return parsed;
+}
+
+function parseSettle(
+  strategy: string | undefined,
+  idleMs: number | undefined,
+  maxMs: number | undefined,
+): SettleOptions | undefined {
+  if (strategy === undefined || strategy === "fixed") {
+    if (idleMs !== undefined || maxMs !== undefined) {
+      throw new CliUsageError(
+        "--idle-ms and --max-settle-ms need --settle idle",
+      );
+    }
+    return strategy ? { strategy } : undefined;
+  }
+  if (strategy !== "idle") {
+    throw new CliUsageError(`unknown settle strategy "${strategy}"`);
+  }
+  return dropUndefined({ strategy: "idle" as const, idleMs, maxMs });
+}
+
+function parseDevice(
+  viewport: string | undefined,
+  devicePixelRatio: string | undefined,
+  mediaFeatures: string[] | undefined,
+): DeviceOptions | undefined {
+  if (!viewport && !devicePixelRatio && !mediaFeatures) {
+    return undefined;
+  }
+  const device: DeviceOptions = {};
+  if (viewport) {
+    const match = /^(\d+)x(\d+)$/.exec(viewport);
+    if (!match) {
+      throw new CliUsageError("--viewport expects <width>x<height>");
+    }
+    device.width = Number(match[1]);
+    device.height = Number(match[2]);
+  }
+  if (devicePixelRatio) {
+    const ratio = Number(devicePixelRatio);
+    if (!Number.isFinite(ratio) || ratio <= 0) {
+      throw new CliUsageError("--device-pixel-ratio expects a positive number");
+    }
+    device.devicePixelRatio = ratio;
+  }
+  if (mediaFeatures) {
+    device.mediaFeatures = {};
+    for (const feature of mediaFeatures) {
+      const separator = feature.indexOf("=");
+      if (separator <= 0) {
+        throw new CliUsageError("--media-feature expects <name>=<value>");
+      }
+      device.mediaFeatures[feature.slice(0, separator).trim()] = feature
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+  return device;
+}
+
+function toScopeRule(values: {
+  sameOrigin?: boolean;
+  hosts?: string[];
+  include?: string[];
+  exclude?: string[];
+  skipKinds?: string[];
+}): ScopeRule | undefined {
+  const rule: ScopeRule = {};
+  if (values.sameOrigin) {
+    rule.sameOrigin = true;
+  }
+  if (values.hosts) {
+    rule.hosts = values.hosts;
+  }
+  if (values.include) {
+    rule.include = values.include;
+  }
+  if (values.exclude) {
+    rule.exclude = values.exclude;
+  }
+  if (values.skipKinds) {
+    rule.kinds = {};
+    for (const kind of values.skipKinds) {
+      if (!KINDS.includes(kind as ResourceKind)) {
+        throw new CliUsageError(`unknown resource kind "${kind}"`);
+      }
+      rule.kinds[kind as ResourceKind] = false;
+    }
+  }
+  return Object.keys(rule).length > 0 ? rule : undefined;
+}
+
+async function createCliFetcher(
+  directory: string | undefined,
+  origin: string | undefined,
+  harPath: string | undefined,
+): Promise<ResourceFetcher | undefined> {
+  if (directory && harPath) {
+    throw new CliUsageError("--fixtures-dir and --har cannot be combined");
+  }
+  if (directory) {
+    if (!origin) {
+      throw new CliUsageError("--fixtures-dir requires --fixtures-origin");
+    }
+    return createDirectoryFetcher({ directory, origin });
+  }
+  if (origin) {
+    throw new CliUsageError("--fixtures-origin requires --fixtures-dir");
+  }
+  if (harPath) {
+    const har = JSON.parse(await readFile(harPath, "utf8")) as Har;
+    return createHarFetcher(har);
+  }
+  return undefined;
+}
+
+async function readInput(
+  input: string | undefined,
+  io: CliIO,
+): Promise<{ text: string; url?: string }> {
+  if (input === undefined || input === "-") {
+    if (input === undefined && io.stdin.isTTY) {
+      throw new Error("no input given; pass a file, a URL or pipe stdin");
+    }
+    let text = "";
+    for await (const chunk of io.stdin) {
+      text += chunk.toString();
+    }
+    return { text };
+  }
+
+  if (/^https?:\/\//i.test(input)) {
+    const response = await createGlobalFetcher()(input);
+    if (!response || response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `failed to fetch ${input} (status ${response?.status ?? "unknown"})`,
+      );
+    }
+    return { text: response.body, url: response.url || input };
+  }
+
+  return { text: await readFile(input, "utf8") };
+}
+
+function formatTable(result: LighterceptorResult) {
+  const rows = result.requests.map((request) => [
+    request.source,
+    String(request.depth),
+    request.url,
+  ]);
+  const header = ["SOURCE", "DEPTH", "URL"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) =>
+        column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+      )
+      .join("  ");
+
+  const lines = [formatRow(header), ...rows.map(formatRow)];
+  if (result.title) {
+    lines.unshift(`Title: ${result.title}`, "");
+  }
+  lines.push("", `${result.requests.length} request(s)`);
+  if (result.truncated) {
+    lines.push(`Truncated by ${result.truncated}`);
+  }
+  if (result.aborted) {
+    lines.push("Aborted");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function isParseArgsError(error: unknown) {
+  return (
+    error instanceof Error &&
+    "code" in error &&
+    typeof error.code === "string" &&
+    error.code.startsWith("ERR_PARSE_ARGS")
+  );
+}
+
+function formatError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function dropUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
@@ -0,0 +1,146 @@
+import type { DOMWindow } from "jsdom";
+
+export type VirtualClock = {
+  now(): number;
+  install(window: DOMWindow): void;
+  advance(durationMs: number, signal?: AbortSignal): Promise<void>;
+};
+
+type TimerHandler = ((...args: unknown[]) => void) | string;
+
+type Timer = {
+  id: number;
+  at: number;
+  interval?: number;
+  handler: TimerHandler;
+  args: unknown[];
+};
+
+const FRAME_MS = 16;
+const MAX_TIMER_RUNS = 10_000;
+
+export function createVirtualClock(): VirtualClock {
+  const timers = new Map<number, Timer>();
+  let current = 0;
+  let nextId = 1;
+  let target: DOMWindow | undefined;
+
+  const schedule = (
+    handler: TimerHandler,
+    delay: unknown,
+    args: unknown[],
+    repeat: boolean,
+  ) => {
+    const id = nextId++;
+    const ms = Math.max(0, Number(delay) || 0);
+    timers.set(id, {
+      id,
+      at: current + ms,
+      // Zero-delay intervals would never let the clock move forward.
+      interval: repeat ? Math.max(1, ms) : undefined,
+      handler,
+      args,
+    });
+    return id;
+  };
+
+  const cancel = (id: unknown) => {
+    timers.delete(Number(id));
+  };
+
+  const nextDue = (until: number) => {
+    let next: Timer | undefined;
+    for (const timer of timers.values()) {
+      if (timer.at <= until && (!next || timer.at < next.at)) {
+        next = timer;
+      }
+    }
+    return next;
+  };
+
+  const fire = (timer: Timer) => {
+    if (timer.interval !== undefined) {
+      timer.at += timer.interval;
+    } else {
+      timers.delete(timer.id);
+    }
+
+    try {
+      if (typeof timer.handler === "function") {
+        timer.handler(...timer.args);
+      } else {
+        target?.eval(timer.handler);
+      }
+    } catch {
+      // A throwing callback must not stop the clock for everyone else.
+    }
+  };
+
+  const install = (window: DOMWindow) => {
+    target = window;
+    const startedAt = window.Date.now();
+    const startedPerf = window.performance.now();
+
+    window.setTimeout = function setTimeout(
+      handler: TimerHandler,
+      timeout?: number,
+      ...args: unknown[]
+    ) {
+      return schedule(handler, timeout, args, false);
+    } as typeof window.setTimeout;
+
+    window.setInterval = function setInterval(
+      handler: TimerHandler,
+      timeout?: number,
+      ...args: unknown[]
+    ) {
+      return schedule(handler, timeout, args, true);
+    } as typeof window.setInterval;
+
+    window.clearTimeout = cancel as typeof window.clearTimeout;
+    window.clearInterval = cancel as typeof window.clearInterval;
+
+    window.requestAnimationFrame = function requestAnimationFrame(
+      callback: FrameRequestCallback,
+    ) {
+      const due = (Math.floor(current / FRAME_MS) + 1) * FRAME_MS;
+      return schedule(
+        () => callback(startedPerf + due),
+        due - current,
+        [],
+        false,
+      );
+    };
+    window.cancelAnimationFrame = cancel;
+
+    window.Date.now = () => startedAt + current;
+    window.performance.now = () => startedPerf + current;
+  };
+
+  const advance = async (durationMs: number, signal?: AbortSignal) => {
+    const until = current + Math.max(0, durationMs);
+    let runs = 0;
+
+    while (runs < MAX_TIMER_RUNS) {
+      // Let pending promise chains queue their timers before picking the next.
+      await new Promise((resolve) => setImmediate(resolve));
+      const timer = signal?.aborted ? undefined : nextDue(until);
+      if (!timer) {
+        break;
+      }
+      current = Math.max(current, timer.at);
+      fire(timer);
+      runs += 1;
+    }
+
+    if (!signal?.aborted) {
+      current = until;
+    }
+  };
+
+  return {
+    now: () => current,
+    install,
+    advance,
+  };
+}
@@ -0,0 +1,692 @@
+import type { CssReferenceType } from "./types.js";
+
+export type CssReference = {
+  url: string;
+  type: CssReferenceType;
+  discoveredBy: "@import" | "url()" | "image-set()";
+  media?: string;
+  layer?: string;
+  supports?: string;
+};
+
+type CssToken =
+  | { type: "whitespace"; start: number; end: number }
+  | { type: "string"; value: string; start: number; end: number }
+  | { type: "bad-string"; start: number; end: number }
+  | { type: "url"; value: string; start: number; end: number }
+  | { type: "bad-url"; start: number; end: number }
+  | { type: "function"; value: string; start: number; end: number }
+  | { type: "ident"; value: string; start: number; end: number }
+  | { type: "at-keyword"; value: string; start: number; end: number }
+  | { type: "hash"; value: string; start: number; end: number }
+  | { type: "numeric"; start: number; end: number }
+  | { type: "delim"; value: string; start: number; end: number }
+  | {
+      type: "(" | ")" | "[" | "]" | "{" | "}" | "," | ":" | ";" | "CDO" | "CDC";
+      start: number;
+      end: number;
+    };
+
+const IMAGE_SET_FUNCTIONS = new Set(["image-set", "-webkit-image-set"]);
+const URL_FUNCTIONS = new Set(["url", "src"]);
+
+// https://drafts.csswg.org/css-syntax-3/#input-preprocessing
+function preprocess(cssText: string) {
+  return cssText.replace(/\r\n?|\f/g, "\n").replace(/\0/g, "\uFFFD");
+}
+
+// https://drafts.csswg.org/css-syntax-3/#tokenization
+function tokenizeCss(input: string): CssToken[] {
+  const tokens: CssToken[] = [];
+  let index = 0;
+
+  const at = (offset = 0) => input[index + offset] ?? "";
+
+  const consumeEscape = () => {
+    // The backslash has already been consumed.
+    let hex = "";
+    while (hex.length < 6 && isHexDigit(at())) {
+      hex += at();
+      index += 1;
+    }
+    if (hex.length > 0) {
+      if (isWhitespace(at())) {
+        index += 1;
+      }
+      const codePoint = parseInt(hex, 16);
+      if (
+        codePoint === 0 ||
+        codePoint > 0x10ffff ||
+        (codePoint >= 0xd800 && codePoint <= 0xdfff)
+      ) {
+        return "\uFFFD";
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    if (index >= input.length) {
+      return "\uFFFD";
+    }
+    const char = at();
+    index += 1;
+    return char;
+  };
+
+  const consumeName = () => {
+    let name = "";
+    while (index < input.length) {
+      const char = at();
+      if (isNameCodePoint(char)) {
+        name += char;
+        index += 1;
+      } else if (isValidEscape(char, at(1))) {
+        index += 1;
+        name += consumeEscape();
+      } else {
+        break;
+      }
+    }
+    return name;
+  };
+
+  const consumeString = (quote: string, start: number): CssToken => {
+    let value = "";
+    while (index < input.length) {
+      const char = at();
+      if (char === quote) {
+        index += 1;
+        return { type: "string", value, start, end: index };
+      }
+      if (char === "\n") {
+        return { type: "bad-string", start, end: index };
+      }
+      if (char === "\\") {
+        if (index + 1 >= input.length) {
+          index += 1;
+        } else if (at(1) === "\n") {
+          index += 2;
+        } else {
+          index += 1;
+          value += consumeEscape();
+        }
+        continue;
+      }
+      value += char;
+      index += 1;
+    }
+    return { type: "string", value, start, end: index };
+  };
+
+  const consumeBadUrlRemnants = () => {
+    while (index < input.length) {
+      const char = at();
+      if (char === ")") {
+        index += 1;
+        return;
+      }
+      if (isValidEscape(char, at(1))) {
+        index += 1;
+        consumeEscape();
+      } else {
+        index += 1;
+      }
+    }
+  };
+
+  const consumeUrl = (start: number): CssToken => {
+    let value = "";
+    while (isWhitespace(at())) {
+      index += 1;
+    }
+    while (index < input.length) {
+      const char = at();
+      if (char === ")") {
+        index += 1;
+        return { type: "url", value, start, end: index };
+      }
+      if (isWhitespace(char)) {
+        while (isWhitespace(at())) {
+          index += 1;
+        }
+        if (at() === ")" || index >= input.length) {
+          index += at() === ")" ? 1 : 0;
+          return { type: "url", value, start, end: index };
+        }
+        consumeBadUrlRemnants();
+        return { type: "bad-url", start, end: index };
+      }
+      if (
+        char === '"' ||
+        char === "'" ||
+        char === "(" ||
+        isNonPrintable(char)
+      ) {
+        consumeBadUrlRemnants();
+        return { type: "bad-url", start, end: index };
+      }
+      if (char === "\\") {
+        if (isValidEscape(char, at(1))) {
+          index += 1;
+          value += consumeEscape();
+          continue;
+        }
+        consumeBadUrlRemnants();
+        return { type: "bad-url", start, end: index };
+      }
+      value += char;
+      index += 1;
+    }
+    return { type: "url", value, start, end: index };
+  };
+
+  const consumeIdentLike = (start: number): CssToken => {
+    const name = consumeName();
+    if (name.toLowerCase() === "url" && at() === "(") {
+      index += 1;
+      while (isWhitespace(at()) && isWhitespace(at(1))) {
+        index += 1;
+      }
+      const next = isWhitespace(at()) ? at(1) : at();
+      if (next === '"' || next === "'") {
+        return { type: "function", value: name, start, end: index };
+      }
+      return consumeUrl(start);
+    }
+    if (at() === "(") {
+      index += 1;
+      return { type: "function", value: name, start, end: index };
+    }
+    return { type: "ident", value: name, start, end: index };
+  };
+
+  const consumeNumeric = (start: number): CssToken => {
+    const match = /^[+-]?(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(
+      input.slice(index),
+    );
+    index += match ? match[0].length : 1;
+    if (startsIdentifier(at(), at(1), at(2))) {
+      consumeName();
+    } else if (at() === "%") {
+      index += 1;
+    }
+    return { type: "numeric", start, end: index };
+  };
+
+  while (index < input.length) {
+    const start = index;
+    const char = at();
+
+    if (char === "/" && at(1) === "*") {
+      const end = input.indexOf("*/", index + 2);
+      index = end === -1 ? input.length : end + 2;
+      continue;
+    }
+
+    if (isWhitespace(char)) {
+      while (isWhitespace(at())) {
+        index += 1;
+      }
+      tokens.push({ type: "whitespace", start, end: index });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      index += 1;
+      tokens.push(consumeString(char, start));
+      continue;
+    }
+
+    if (char === "#") {
+      if (isNameCodePoint(at(1)) || isValidEscape(at(1), at(2))) {
+        index += 1;
+        const value = consumeName();
+        tokens.push({ type: "hash", value, start, end: index });
+      } else {
+        index += 1;
+        tokens.push({ type: "delim", value: char, start, end: index });
+      }
+      continue;
+    }
+
+    if ("()[]{},:;".includes(char)) {
+      index += 1;
+      tokens.push({ type: char as "(", start, end: index });
+      continue;
+    }
+
+    if (char === "+" || char === ".") {
+      if (startsNumber(char, at(1), at(2))) {
+        tokens.push(consumeNumeric(start));
+      } else {
+        index += 1;
+        tokens.push({ type: "delim", value: char, start, end: index });
+      }
+      continue;
+    }
+
+    if (char === "-") {
+      if (startsNumber(char, at(1), at(2))) {
+        tokens.push(consumeNumeric(start));
+      } else if (at(1) === "-" && at(2) === ">") {
+        index += 3;
+        tokens.push({ type: "CDC", start, end: index });
+      } else if (startsIdentifier(char, at(1), at(2))) {
+        tokens.push(consumeIdentLike(start));
+      } else {
+        index += 1;
+        tokens.push({ type: "delim", value: char, start, end: index });
+      }
+      continue;
+    }
+
+    if (char === "<" && input.startsWith("<!--", index)) {
+      index += 4;
+      tokens.push({ type: "CDO", start, end: index });
+      continue;
+    }
+
+    if (char === "@") {
+      if (startsIdentifier(at(1), at(2), at(3))) {
+        index += 1;
+        const value = consumeName();
+        tokens.push({ type: "at-keyword", value, start, end: index });
+      } else {
+        index += 1;
+        tokens.push({ type: "delim", value: char, start, end: index });
+      }
+      continue;
+    }
+
+    if (char === "\\") {
+      if (isValidEscape(char, at(1))) {
+        tokens.push(consumeIdentLike(start));
+      } else {
+        index += 1;
+        tokens.push({ type: "delim", value: char, start, end: index });
+      }
+      continue;
+    }
+
+    if (isDigit(char)) {
+      tokens.push(consumeNumeric(start));
+      continue;
+    }
+
+    if (isNameStartCodePoint(char)) {
+      tokens.push(consumeIdentLike(start));
+      continue;
+    }
+
+    index += 1;
+    tokens.push({ type: "delim", value: char, start, end: index });
+  }
+
+  return tokens;
+}
+
+export function extractCssReferences(cssText: string): CssReference[] {
+  const source = preprocess(cssText);
+  const tokens = tokenizeCss(source);
+  const references: CssReference[] = [];
+  const blocks: Array<{ atRule?: string }> = [];
+  const functions: string[] = [];
+  let pendingAtRule: string | undefined;
+  let property: string | undefined;
+  let candidateProperty: string | undefined;
+  let expectingProperty = true;
+
+  const classify = (): CssReferenceType => {
+    const block = blocks[blocks.length - 1];
+    if (block?.atRule === "font-face" && property === "src") {
+      return "font";
+    }
+    if (property === "cursor") {
+      return "cursor";
+    }
+    if (property && /^(?:-webkit-)?mask(?:-|$)/.test(property)) {
+      return "mask";
+    }
+    return "image";
+  };
+
+  const add = (
+    url: string,
+    discoveredBy: CssReference["discoveredBy"],
+    type: CssReferenceType = classify(),
+  ) => {
+    const trimmed = url.trim();
+    // Fragment-only references point into the current document.
+    if (trimmed.length > 0 && !trimmed.startsWith("#")) {
+      references.push({ url: trimmed, type, discoveredBy });
+    }
+  };
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+
+    if (token.type === "whitespace") {
+      continue;
+    }
+
+    if (
+      token.type === "at-keyword" &&
+      functions.length === 0 &&
+      token.value.toLowerCase() === "import"
+    ) {
+      const end = findStatementEnd(tokens, index + 1);
+      const reference = parseImportPrelude(
+        source,
+        tokens.slice(index + 1, end),
+      );
+      if (reference) {
+        references.push(reference);
+      }
+      index = end;
+      expectingProperty = true;
+      continue;
+    }
+
+    if (token.type === "at-keyword" && functions.length === 0) {
+      pendingAtRule = token.value.toLowerCase();
+      expectingProperty = false;
+      if (pendingAtRule === "namespace") {
+        index = findStatementEnd(tokens, index + 1);
+        pendingAtRule = undefined;
+        expectingProperty = true;
+      }
+      continue;
+    }
+
+    if (token.type === "ident" && expectingProperty) {
+      candidateProperty = token.value.toLowerCase();
+      expectingProperty = false;
+      continue;
+    }
+
+    if (token.type === ":" && candidateProperty && functions.length === 0) {
+      property = candidateProperty;
+      candidateProperty = undefined;
+      continue;
+    }
+    candidateProperty = undefined;
+
+    switch (token.type) {
+      case "{":
+        blocks.push({ atRule: pendingAtRule });
+        pendingAtRule = undefined;
+        property = undefined;
+        functions.length = 0;
+        expectingProperty = true;
+        break;
+      case "}":
+        blocks.pop();
+        pendingAtRule = undefined;
+        property = undefined;
+        functions.length = 0;
+        expectingProperty = true;
+        break;
+      case ";":
+        if (functions.length === 0) {
+          pendingAtRule = undefined;
+          property = undefined;
+          expectingProperty = true;
+        }
+        break;
+      case "function":
+        functions.push(token.value.toLowerCase());
+        break;
+      case "(":
+        functions.push("");
+        break;
+      case ")":
+        functions.pop();
+        break;
+      case "url":
+        add(token.value, "url()");
+        break;
+      case "string": {
+        const current = functions[functions.length - 1];
+        if (current && URL_FUNCTIONS.has(current)) {
+          add(token.value, "url()");
+        } else if (current && IMAGE_SET_FUNCTIONS.has(current)) {
+          add(token.value, "image-set()");
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return references;
+}
+
+export function splitCssRules(cssText: string): string[] {
+  const source = preprocess(cssText);
+  const tokens = tokenizeCss(source);
+  const rules: string[] = [];
+  let start: number | undefined;
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (start === undefined) {
+      if (
+        token.type === "whitespace" ||
+        token.type === "CDO" ||
+        token.type === "CDC"
+      ) {
+        continue;
+      }
+      start = token.start;
+    }
+
+    if (token.type === "{" || token.type === "(" || token.type === "[") {
+      depth += 1;
+    } else if (token.type === "function") {
+      depth += 1;
+    } else if (token.type === ")" || token.type === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (token.type === "}") {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) {
+        rules.push(source.slice(start, token.end));
+        start = undefined;
+      }
+    } else if (token.type === ";" && depth === 0) {
+      rules.push(source.slice(start, token.end));
+      start = undefined;
+    }
+  }
+
+  if (start !== undefined) {
+    const rest = source.slice(start).trim();
+    if (rest) {
+      rules.push(rest);
+    }
+  }
+
+  return rules;
+}
+
+function parseImportPrelude(
+  source: string,
+  tokens: CssToken[],
+): CssReference | undefined {
+  let index = 0;
+  const skipWhitespace = () => {
+    while (tokens[index]?.type === "whitespace") {
+      index += 1;
+    }
+  };
+
+  skipWhitespace();
+  const first = tokens[index];
+  let url: string | undefined;
+  if (first?.type === "string" || first?.type === "url") {
+    url = first.value;
+    index += 1;
+  } else if (
+    first?.type === "function" &&
+    URL_FUNCTIONS.has(first.value.toLowerCase())
+  ) {
+    index += 1;
+    skipWhitespace();
+    const argument = tokens[index];
+    if (argument?.type !== "string") {
+      return undefined;
+    }
+    url = argument.value;
+    index = findClosingParen(tokens, index + 1) + 1;
+  }
+
+  if (!url || url.trim().length === 0) {
+    return undefined;
+  }
+
+  const reference: CssReference = {
+    url: url.trim(),
+    type: "import",
+    discoveredBy: "@import",
+  };
+
+  skipWhitespace();
+  const layer = tokens[index];
+  if (layer?.type === "ident" && layer.value.toLowerCase() === "layer") {
+    reference.layer = "";
+    index += 1;
+  } else if (
+    layer?.type === "function" &&
+    layer.value.toLowerCase() === "layer"
+  ) {
+    const close = findClosingParen(tokens, index + 1);
+    reference.layer = sliceTokens(source, tokens, index + 1, close);
+    index = close + 1;
+  }
+
+  skipWhitespace();
+  const supports = tokens[index];
+  if (
+    supports?.type === "function" &&
+    supports.value.toLowerCase() === "supports"
+  ) {
+    const close = findClosingParen(tokens, index + 1);
+    reference.supports = sliceTokens(source, tokens, index + 1, close);
+    index = close + 1;
+  }
+
+  const media = sliceTokens(source, tokens, index, tokens.length);
+  if (media) {
+    reference.media = media;
+  }
+
+  return reference;
+}
+
+function findStatementEnd(tokens: CssToken[], from: number) {
+  let depth = 0;
+  for (let index = from; index < tokens.length; index += 1) {
+    const { type } = tokens[index];
+    if (type === "function" || type === "(" || type === "[") {
+      depth += 1;
+    } else if (type === ")" || type === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && (type === ";" || type === "{")) {
+      // Leave a block opener in place so the caller can track it.
+      return type === "{" ? index - 1 : index;
+    }
+  }
+  return tokens.length;
+}
+
+function findClosingParen(tokens: CssToken[], from: number) {
+  let depth = 0;
+  for (let index = from; index < tokens.length; index += 1) {
+    const { type } = tokens[index];
+    if (type === "function" || type === "(") {
+      depth += 1;
+    } else if (type === ")") {
+      if (depth === 0) {
+        return index;
+      }
+      depth -= 1;
+    }
+  }
+  return tokens.length;
+}
+
+function sliceTokens(
+  source: string,
+  tokens: CssToken[],
+  from: number,
+  to: number,
+) {
+  return tokens
+    .slice(from, to)
+    .map((token) =>
+      token.type === "whitespace" ? " " : source.slice(token.start, token.end),
+    )
+    .join("")
+    .trim();
+}
+
+function isWhitespace(char: string) {
+  return char === " " || char === "\t" || char === "\n";
+}
+
+function isDigit(char: string) {
+  return char >= "0" && char <= "9";
+}
+
+function isHexDigit(char: string) {
+  return /^[0-9a-fA-F]$/.test(char);
+}
+
+function isNameStartCodePoint(char: string) {
+  return (
+    (char >= "a" && char <= "z") ||
+    (char >= "A" && char <= "Z") ||
+    char === "_" ||
+    (char.length > 0 && char.charCodeAt(0) >= 0x80)
+  );
+}
+
+function isNameCodePoint(char: string) {
+  return isNameStartCodePoint(char) || isDigit(char) || char === "-";
+}
+
+function isNonPrintable(char: string) {
+  const code = char.charCodeAt(0);
+  return (
+    (code >= 0 && code <= 8) ||
+    code === 0x0b ||
+    (code >= 0x0e && code <= 0x1f) ||
+    code === 0x7f
+  );
+}
+
+function isValidEscape(first: string, second: string) {
+  return first === "\\" && second !== "\n" && second !== "";
+}
+
+function startsIdentifier(first: string, second: string, third: string) {
+  if (first === "-") {
+    return (
+      isNameStartCodePoint(second) ||
+      second === "-" ||
+      isValidEscape(second, third)
+    );
+  }
+  if (isNameStartCodePoint(first)) {
+    return true;
+  }
+  return isValidEscape(first, second);
+}
+
+function startsNumber(first: string, second: string, third: string) {
+  if (first === "+" || first === "-") {
+    return isDigit(second) || (second === "." && isDigit(third));
+  }
+  if (first === ".") {
+    return isDigit(second);
+  }
+  return isDigit(first);
+}
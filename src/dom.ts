@@ -1,16 +1,42 @@
 import { JSDOM, type DOMWindow } from "jsdom";
 
-import { InterceptingResourceLoader } from "./resource-loader";
-import type { RequestInterceptor } from "./types";
+import type { VirtualClock } from "./clock.js";
+import { extractCssReferences, splitCssRules } from "./css.js";
+import { InterceptingResourceLoader } from "./resource-loader.js";
+import {
+  installDevice,
+  isResponsivePreload,
+  isSelectedCandidate,
+  parseSrcset,
+  type DeviceOptions,
+} from "./responsive.js";
+import {
+  extractSvgReferences,
+  SVG_NAMESPACE,
+  toSvgReference,
+  XLINK_NAMESPACE,
+} from "./svg.js";
+import type {
+  RequestCredentialsMode,
+  RequestDetails,
+  RequestInterceptor,
+  RequestSource,
+} from "./types.js";
 
 export type InterceptorOptions = {
   html: string;
   domOptions?: ConstructorParameters<typeof JSDOM>[1];
   interceptor: RequestInterceptor;
+  onResourceLoad?: (load: Promise<Buffer>) => void;
+  clock?: VirtualClock;
+  device?: DeviceOptions;
 };
 
 export function createJSDOMWithInterceptor(options: InterceptorOptions) {
-  const resources = new InterceptingResourceLoader(options.interceptor);
+  const resources = new InterceptingResourceLoader(
+    options.interceptor,
+    options.onResourceLoad,
+  );
   const domOptions = options.domOptions ?? {};
   const userBeforeParse = domOptions.beforeParse;
 
@@ -22,37 +48,24 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         userBeforeParse(window);
       }
 
-      const extractCssUrls = (cssText: string) => {
-        const urls: string[] = [];
-        const pattern = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
-        let match: RegExpExecArray | null;
-
-        while ((match = pattern.exec(cssText)) !== null) {
-          const url = match[2].trim();
-          if (url.length > 0) {
-            urls.push(url);
-          }
-        }
+      // Installed after the caller's hook so its timers run on virtual time.
+      options.clock?.install(window);
+      if (options.device) {
+        installDevice(window, options.device);
+      }
 
-        const importPattern =
-          /@import\s+(?:url\(\s*)?(['"]?)([^'")\s]+)\1\s*\)?/gi;
-        while ((match = importPattern.exec(cssText)) !== null) {
-          const url = match[2].trim();
-          if (url.length > 0) {
-            urls.push(url);
+      const interceptCssText = (cssText: string, allowImports = true) => {
+        for (const reference of extractCssReferences(cssText)) {
+          if (!allowImports && reference.type === "import") {
+            continue;
           }
-        }
-
-        return urls;
-      };
-
-      const interceptCssText = (cssText: string) => {
-        for (const url of extractCssUrls(cssText)) {
           void Promise.resolve(
-            options.interceptor(url, {
+            options.interceptor(reference.url, {
               element: undefined,
               referrer: window.document.URL,
               source: "css",
+              discoveredBy: reference.discoveredBy,
+              classification: reference.type,
             }),
           );
         }
@@ -67,11 +80,16 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
             element: imageElement,
             referrer: window.document.URL,
             source: "img",
+            discoveredBy: "img[src]",
           }),
         );
       };
 
-      const interceptResourceSrc = (url: string, element?: Element | null) => {
+      const interceptResourceSrc = (
+        url: string,
+        element: Element,
+        discoveredBy: string,
+      ) => {
         const iframeOrLink =
           element instanceof window.HTMLIFrameElement
             ? element
@@ -84,20 +102,41 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
             element: iframeOrLink,
             referrer: window.document.URL,
             source: "resource",
+            discoveredBy,
           }),
         );
       };
 
-      const parseSrcsetUrls = (value: string) => {
-        return value
-          .split(",")
-          .map((candidate) => candidate.trim().split(/\s+/)[0])
-          .filter((url) => url.length > 0);
+      const interceptSvgHref = (
+        element: Element,
+        href: string,
+        attribute: "href" | "xlink:href",
+      ) => {
+        const reference = toSvgReference(element, href, attribute);
+        if (!reference) {
+          return;
+        }
+        void Promise.resolve(
+          options.interceptor(reference.url, {
+            element: element as SVGElement,
+            referrer: window.document.URL,
+            source: reference.type === "image" ? "img" : "resource",
+            discoveredBy: reference.discoveredBy,
+          }),
+        );
       };
 
+      const parseSrcsetUrls = (value: string) =>
+        parseSrcset(value).map((candidate) => candidate.url);
+
       const interceptSrcset = (value: string, element: Element | null) => {
         const isImage = element instanceof window.HTMLImageElement;
         const source = isImage ? "img" : "resource";
+        // Label candidates by the attribute they came from, as the static scan
+        // does, rather than by the element's `src`.
+        const discoveredBy = element
+          ? `${element.localName}[srcset]`
+          : undefined;
 
         for (const url of parseSrcsetUrls(value)) {
           void Promise.resolve(
@@ -105,6 +144,7 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
               element: isImage ? (element as HTMLImageElement) : undefined,
               referrer: window.document.URL,
               source,
+              discoveredBy,
             }),
           );
         }
@@ -112,7 +152,11 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
 
       const patchSrcProperty = (
         proto: object | undefined,
-        sourceHandler: (value: string, element: Element | null) => void,
+        sourceHandler: (
+          value: string,
+          element: Element,
+          discoveredBy: string,
+        ) => void,
       ) => {
         const descriptor = proto
           ? Object.getOwnPropertyDescriptor(proto, "src")
@@ -120,8 +164,8 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         if (proto && descriptor?.set) {
           Object.defineProperty(proto, "src", {
             ...descriptor,
-            set(value: string) {
-              sourceHandler(String(value), this as Element);
+            set(this: Element, value: string) {
+              sourceHandler(String(value), this, `${this.localName}[src]`);
               descriptor.set?.call(this, value);
             },
           });
@@ -149,13 +193,14 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           normalized.includes("preload") ||
           normalized.includes("prefetch") ||
           normalized.includes("stylesheet") ||
-          normalized.includes("icon")
+          normalized.includes("icon") ||
+          normalized.includes("manifest")
         );
       };
 
       const interceptLinkHref = (link: HTMLLinkElement, rel: string) => {
         if (shouldInterceptLinkRel(rel) && link.href) {
-          interceptResourceSrc(link.href, link);
+          interceptResourceSrc(link.href, link, "link[href]");
         }
       };
 
@@ -169,14 +214,18 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           return;
         }
         for (const url of parseSrcsetUrls(imagesrcset)) {
-          interceptResourceSrc(url, link);
+          interceptResourceSrc(url, link, "link[imagesrcset]");
         }
       };
 
       const patchAttributeProperty = (
         proto: object | undefined,
         property: string,
-        sourceHandler: (value: string, element: Element | null) => void,
+        sourceHandler: (
+          value: string,
+          element: Element,
+          discoveredBy: string,
+        ) => void,
       ) => {
         const descriptor = proto
           ? Object.getOwnPropertyDescriptor(proto, property)
@@ -184,8 +233,12 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         if (proto && descriptor?.set) {
           Object.defineProperty(proto, property, {
             ...descriptor,
-            set(value: string) {
-              sourceHandler(String(value), this as Element);
+            set(this: Element, value: string) {
+              sourceHandler(
+                String(value),
+                this,
+                `${this.localName}[${property}]`,
+              );
               descriptor.set?.call(this, value);
             },
           });
@@ -263,31 +316,51 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
             this instanceof window.HTMLSourceElement) &&
           name.toLowerCase() === "src"
         ) {
-          interceptResourceSrc(String(value), this);
+          interceptResourceSrc(
+            String(value),
+            this,
+            `${this.localName}[${name.toLowerCase()}]`,
+          );
         }
         if (
           this instanceof window.HTMLTrackElement &&
           name.toLowerCase() === "src"
         ) {
-          interceptResourceSrc(String(value), this);
+          interceptResourceSrc(
+            String(value),
+            this,
+            `${this.localName}[${name.toLowerCase()}]`,
+          );
         }
         if (
           this instanceof window.HTMLEmbedElement &&
           name.toLowerCase() === "src"
         ) {
-          interceptResourceSrc(String(value), this);
+          interceptResourceSrc(
+            String(value),
+            this,
+            `${this.localName}[${name.toLowerCase()}]`,
+          );
         }
         if (
           this instanceof window.HTMLObjectElement &&
           name.toLowerCase() === "data"
         ) {
-          interceptResourceSrc(String(value), this);
+          interceptResourceSrc(
+            String(value),
+            this,
+            `${this.localName}[${name.toLowerCase()}]`,
+          );
         }
         if (
           this instanceof window.HTMLVideoElement &&
           name.toLowerCase() === "poster"
         ) {
-          interceptResourceSrc(String(value), this);
+          interceptResourceSrc(
+            String(value),
+            this,
+            `${this.localName}[${name.toLowerCase()}]`,
+          );
         }
         if (this instanceof window.HTMLSourceElement && name === "srcset") {
           interceptSrcset(String(value), this);
@@ -297,7 +370,7 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           if (lowerName === "href") {
             const rel = (this.getAttribute("rel") ?? "").toLowerCase();
             if (shouldInterceptLinkRel(rel)) {
-              interceptResourceSrc(String(value), this);
+              interceptResourceSrc(String(value), this, "link[href]");
             }
           }
           if (lowerName === "rel") {
@@ -309,40 +382,41 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
             interceptLinkImagesrcset(this);
           }
         }
+        if (name === "href") {
+          interceptSvgHref(this, String(value), "href");
+        } else if (name.toLowerCase() === "xlink:href") {
+          interceptSvgHref(this, String(value), "xlink:href");
+        }
         if (name.toLowerCase() === "style") {
           interceptCssText(String(value));
         }
         return originalSetAttribute.call(this, name, value);
       };
 
-      const styleProto = window.CSSStyleDeclaration?.prototype;
-      const originalSetProperty = styleProto?.setProperty;
-      if (styleProto && originalSetProperty) {
-        styleProto.setProperty = function setProperty(
-          propertyName: string,
-          value: string | null,
-          priority?: string,
-        ) {
-          if (typeof value === "string") {
-            interceptCssText(value);
-          }
-          return originalSetProperty.call(this, propertyName, value, priority);
-        };
-
-        const cssTextDescriptor = Object.getOwnPropertyDescriptor(
-          styleProto,
-          "cssText",
-        );
-        if (cssTextDescriptor?.set) {
-          Object.defineProperty(styleProto, "cssText", {
-            ...cssTextDescriptor,
-            set(value: string) {
-              interceptCssText(String(value));
-              cssTextDescriptor.set?.call(this, value);
-            },
-          });
+      const originalSetAttributeNS = window.Element.prototype.setAttributeNS;
+      window.Element.prototype.setAttributeNS = function setAttributeNS(
+        namespace: string | null,
+        qualifiedName: string,
+        value: string,
+      ) {
+        const localName = qualifiedName.split(":").pop();
+        if (localName === "href" && !namespace) {
+          interceptSvgHref(this, String(value), "href");
+        } else if (localName === "href" && namespace === XLINK_NAMESPACE) {
+          interceptSvgHref(this, String(value), "xlink:href");
         }
-      }
+        return originalSetAttributeNS.call(
+          this,
+          namespace,
+          qualifiedName,
+          value,
+        );
+      };
+
+      claimStyleObjects(window, interceptCssText);
+      patchStyleDeclarations(window.CSSStyleDeclaration?.prototype);
+
+      patchStyleSheets(window, interceptCssText);
 
       const nodeProto = window.Node?.prototype;
       const textContentDescriptor = nodeProto
@@ -352,7 +426,12 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         Object.defineProperty(nodeProto, "textContent", {
           ...textContentDescriptor,
           set(value: string) {
-            if (this instanceof window.HTMLStyleElement) {
+            if (
+              this instanceof window.HTMLStyleElement ||
+              (this instanceof window.Element &&
+                this.namespaceURI === SVG_NAMESPACE &&
+                this.localName === "style")
+            ) {
               interceptCssText(String(value));
             }
             textContentDescriptor.set?.call(this, value);
@@ -360,12 +439,17 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         });
       }
 
-      const interceptRequest = (url: string, source: "fetch" | "xhr") => {
+      const interceptRequest = (
+        url: string,
+        source: Exclude<RequestSource, "resource" | "img" | "css">,
+        details: RequestDetails & { discoveredBy?: string } = {},
+      ) => {
         void Promise.resolve(
           options.interceptor(url, {
             element: undefined,
             referrer: window.document.URL,
             source,
+            ...details,
           }),
         );
       };
@@ -374,6 +458,11 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
         const originalFetch = window.fetch.bind(window);
         window.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
           let url = "";
+          // jsdom has no Request class, so only duck-type what pages pass in.
+          const request =
+            typeof input === "object" && !(input instanceof URL)
+              ? (input as Partial<Request>)
+              : undefined;
 
           if (typeof input === "string") {
             url = input;
@@ -384,7 +473,16 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           }
 
           if (url) {
-            interceptRequest(url, "fetch");
+            interceptRequest(url, "fetch", {
+              method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+              headers: {
+                ...readHeaders(request?.headers),
+                ...readHeaders(init?.headers),
+              },
+              credentials:
+                init?.credentials ?? request?.credentials ?? "same-origin",
+              body: serializeBody(window, init?.body),
+            });
           }
 
           return originalFetch(input, init);
@@ -395,6 +493,7 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
       if (xhrProto) {
         const originalOpen = xhrProto.open;
         const originalSend = xhrProto.send;
+        const originalSetRequestHeader = xhrProto.setRequestHeader;
 
         xhrProto.open = function open(
           this: XMLHttpRequest,
@@ -404,9 +503,11 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           username?: string | null,
           password?: string | null,
         ) {
-          (
-            this as XMLHttpRequest & { _interceptorUrl?: string }
-          )._interceptorUrl = String(url);
+          (this as InterceptedXhr)._interceptorRequest = {
+            url: String(url),
+            method: String(method).toUpperCase(),
+            headers: {},
+          };
           return originalOpen.call(
             this,
             method,
@@ -417,30 +518,706 @@ export function createJSDOMWithInterceptor(options: InterceptorOptions) {
           );
         };
 
+        xhrProto.setRequestHeader = function setRequestHeader(
+          this: XMLHttpRequest,
+          name: string,
+          value: string,
+        ) {
+          const request = (this as InterceptedXhr)._interceptorRequest;
+          if (request) {
+            const key = String(name).toLowerCase();
+            const existing = request.headers[key];
+            request.headers[key] =
+              existing === undefined
+                ? String(value)
+                : `${existing}, ${String(value)}`;
+          }
+          return originalSetRequestHeader.call(this, name, value);
+        };
+
         xhrProto.send = function send(
           this: XMLHttpRequest,
           body?: Document | XMLHttpRequestBodyInit | null,
         ) {
-          const { _interceptorUrl } = this as XMLHttpRequest & {
-            _interceptorUrl?: string;
-          };
-          if (_interceptorUrl) {
-            interceptRequest(_interceptorUrl, "xhr");
+          const request = (this as InterceptedXhr)._interceptorRequest;
+          if (request) {
+            const credentials: RequestCredentialsMode = this.withCredentials
+              ? "include"
+              : "same-origin";
+            interceptRequest(request.url, "xhr", {
+              method: request.method,
+              headers: { ...request.headers },
+              credentials,
+              body: serializeBody(window, body),
+            });
           }
           return originalSend.call(this, body ?? null);
         };
       }
+
+      // The stubs below replace the real transports, so nothing they open
+      // ever reaches the network.
+      Object.defineProperty(window.navigator, "sendBeacon", {
+        configurable: true,
+        writable: true,
+        value: function sendBeacon(url: string | URL, data?: unknown) {
+          interceptRequest(String(url), "beacon", {
+            method: "POST",
+            headers: {},
+            credentials: "include",
+            body: serializeBody(window, data),
+          });
+          return true;
+        },
+      });
+
+      const resolveWindowUrl = (url: string | URL, socket = false) => {
+        try {
+          const resolved = new window.URL(String(url), window.document.baseURI);
+          if (socket && resolved.protocol === "http:") {
+            resolved.protocol = "ws:";
+          } else if (socket && resolved.protocol === "https:") {
+            resolved.protocol = "wss:";
+          }
+          return resolved.href;
+        } catch {
+          return String(url);
+        }
+      };
+
+      class WebSocketStub extends window.EventTarget {
+        static readonly CONNECTING = 0;
+        static readonly OPEN = 1;
+        static readonly CLOSING = 2;
+        static readonly CLOSED = 3;
+        readonly CONNECTING = 0;
+        readonly OPEN = 1;
+        readonly CLOSING = 2;
+        readonly CLOSED = 3;
+        readonly url: string;
+        readonly protocol = "";
+        readonly extensions = "";
+        readonly bufferedAmount = 0;
+        binaryType = "blob";
+        readyState = 0;
+        onopen: unknown = null;
+        onmessage: unknown = null;
+        onerror: unknown = null;
+        onclose: unknown = null;
+
+        constructor(url: string | URL, protocols?: string | string[]) {
+          super();
+          this.url = resolveWindowUrl(url, true);
+          const protocolList = Array.isArray(protocols)
+            ? protocols
+            : protocols
+              ? [protocols]
+              : [];
+          interceptRequest(this.url, "websocket", {
+            method: "GET",
+            headers:
+              protocolList.length > 0
+                ? { "sec-websocket-protocol": protocolList.join(", ") }
+                : {},
+            credentials: "include",
+          });
+        }
+
+        send() {}
+
+        close() {
+          this.readyState = WebSocketStub.CLOSED;
+        }
+      }
+
+      class EventSourceStub extends window.EventTarget {
+        static readonly CONNECTING = 0;
+        static readonly OPEN = 1;
+        static readonly CLOSED = 2;
+        readonly CONNECTING = 0;
+        readonly OPEN = 1;
+        readonly CLOSED = 2;
+        readonly url: string;
+        readonly withCredentials: boolean;
+        readyState = 0;
+        onopen: unknown = null;
+        onmessage: unknown = null;
+        onerror: unknown = null;
+
+        constructor(url: string | URL, init?: { withCredentials?: boolean }) {
+          super();
+          this.url = resolveWindowUrl(url);
+          this.withCredentials = Boolean(init?.withCredentials);
+          interceptRequest(this.url, "eventsource", {
+            method: "GET",
+            headers: { accept: "text/event-stream" },
+            credentials: this.withCredentials ? "include" : "same-origin",
+          });
+        }
+
+        close() {
+          this.readyState = EventSourceStub.CLOSED;
+        }
+      }
+
+      Object.defineProperty(window, "WebSocket", {
+        configurable: true,
+        writable: true,
+        value: WebSocketStub,
+      });
+      Object.defineProperty(window, "EventSource", {
+        configurable: true,
+        writable: true,
+        value: EventSourceStub,
+      });
+
+      class WorkerStub extends window.EventTarget {
+        onmessage: unknown = null;
+        onmessageerror: unknown = null;
+        onerror: unknown = null;
+
+        constructor(url: string | URL) {
+          super();
+          interceptRequest(resolveWindowUrl(url), "worker", {
+            discoveredBy: "new Worker()",
+          });
+        }
+
+        postMessage() {}
+
+        terminate() {}
+      }
+
+      class MessagePortStub extends window.EventTarget {
+        onmessage: unknown = null;
+        onmessageerror: unknown = null;
+
+        postMessage() {}
+
+        start() {}
+
+        close() {}
+      }
+
+      class SharedWorkerStub extends window.EventTarget {
+        readonly port = new MessagePortStub();
+        onerror: unknown = null;
+
+        constructor(url: string | URL) {
+          super();
+          interceptRequest(resolveWindowUrl(url), "worker", {
+            discoveredBy: "new SharedWorker()",
+          });
+        }
+      }
+
+      class ServiceWorkerContainerStub extends window.EventTarget {
+        readonly controller = null;
+        // No worker ever activates, so readiness never arrives.
+        readonly ready = new Promise<never>(() => {});
+        oncontrollerchange: unknown = null;
+        onmessage: unknown = null;
+
+        register(url: string | URL, registerOptions?: { scope?: string }) {
+          const scriptUrl = resolveWindowUrl(url);
+          interceptRequest(scriptUrl, "worker", {
+            discoveredBy: "navigator.serviceWorker.register()",
+          });
+          return Promise.resolve({
+            scope: resolveWindowUrl(registerOptions?.scope ?? "./"),
+            installing: null,
+            waiting: null,
+            active: null,
+            update: () => Promise.resolve(),
+            unregister: () => Promise.resolve(true),
+            addEventListener() {},
+            removeEventListener() {},
+          });
+        }
+
+        getRegistration() {
+          return Promise.resolve(undefined);
+        }
+
+        getRegistrations() {
+          return Promise.resolve([]);
+        }
+
+        startMessages() {}
+      }
+
+      Object.defineProperty(window, "Worker", {
+        configurable: true,
+        writable: true,
+        value: WorkerStub,
+      });
+      Object.defineProperty(window, "SharedWorker", {
+        configurable: true,
+        writable: true,
+        value: SharedWorkerStub,
+      });
+      Object.defineProperty(window.navigator, "serviceWorker", {
+        configurable: true,
+        value: new ServiceWorkerContainerStub(),
+      });
+
+      // Navigations are recorded instead of followed. Fragment and
+      // javascript: URLs still go through so in-page behavior keeps working.
+      const interceptNavigation = (url: string | URL, discoveredBy: string) => {
+        const resolved = resolveWindowUrl(url);
+        if (isInPageNavigation(window, resolved)) {
+          return false;
+        }
+        interceptRequest(resolved, "navigation", { discoveredBy });
+        return true;
+      };
+
+      window.open = function open(url?: string | URL) {
+        if (url !== undefined && String(url) !== "") {
+          interceptNavigation(url, "window.open()");
+        }
+        return null;
+      };
+
+      patchLocation(window, interceptNavigation);
+
+      const formProto = window.HTMLFormElement?.prototype;
+      if (formProto) {
+        const originalSubmit = formProto.submit;
+        formProto.submit = function submit(this: HTMLFormElement) {
+          const action = this.getAttribute("action");
+          if (
+            !interceptNavigation(action || window.document.URL, "form.submit()")
+          ) {
+            originalSubmit.call(this);
+          }
+        };
+      }
     },
   });
 
-  scanDocumentRequests(dom.window, options.interceptor);
+  scanDocumentRequests(dom.window, options.interceptor, options.device);
 
   return dom;
 }
 
+const URL_PROPERTY_PATTERN =
+  /background|border-?image|list-?style|content|cursor|mask|shape-?outside|filter|clip-?path/i;
+
+function toCssPropertyName(name: string) {
+  if (name.includes("-")) {
+    return name.toLowerCase();
+  }
+  const dashed = name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+  return /^(?:webkit|moz|ms)-/.test(dashed) ? `-${dashed}` : dashed;
+}
+
+type CssTextInterceptor = (cssText: string, allowImports?: boolean) => void;
+
+// cssstyle's CSSStyleDeclaration and the CSSOM's CSSStyleSheet are shared by
+// every jsdom window, so their prototypes are patched once and each call goes
+// to the interceptor of the window that handed the object out. Entries are
+// dropped along with the objects, and so with their window.
+const cssTextInterceptors = new WeakMap<object, CssTextInterceptor>();
+const patchedStylePrototypes = new WeakSet<object>();
+
+// Shorthand setters call the longhand ones and cssText calls setProperty, so
+// only the outermost change to a declaration is intercepted.
+const changingDeclarations = new WeakSet<object>();
+
+function interceptStyleChange<T>(
+  declaration: object,
+  cssText: string | undefined,
+  change: () => T,
+): T {
+  if (changingDeclarations.has(declaration)) {
+    return change();
+  }
+  if (cssText !== undefined) {
+    cssTextInterceptors.get(declaration)?.(cssText);
+  }
+  changingDeclarations.add(declaration);
+  try {
+    return change();
+  } finally {
+    changingDeclarations.delete(declaration);
+  }
+}
+
+// Wraps a getter so whatever it hands out belongs to this window.
+function claimFromGetter(
+  proto: object | undefined,
+  property: string,
+  claim: (value: unknown) => void,
+) {
+  const descriptor = proto
+    ? Object.getOwnPropertyDescriptor(proto, property)
+    : undefined;
+  if (!proto || !descriptor?.get) {
+    return;
+  }
+  Object.defineProperty(proto, property, {
+    ...descriptor,
+    get() {
+      const value: unknown = descriptor.get?.call(this);
+      claim(value);
+      return value;
+    },
+  });
+}
+
+function claimStyleObjects(
+  window: DOMWindow,
+  interceptCssText: CssTextInterceptor,
+) {
+  const claim = (value: unknown) => {
+    if (typeof value === "object" && value !== null) {
+      cssTextInterceptors.set(value, interceptCssText);
+    }
+  };
+  claimFromGetter(window.HTMLElement?.prototype, "style", claim);
+  claimFromGetter(window.SVGElement?.prototype, "style", claim);
+  claimFromGetter(window.HTMLStyleElement?.prototype, "sheet", claim);
+  claimFromGetter(window.HTMLLinkElement?.prototype, "sheet", claim);
+  claimFromGetter(window.Document?.prototype, "styleSheets", (sheets) => {
+    Array.from(sheets as ArrayLike<unknown>).forEach(claim);
+  });
+}
+
+function patchStyleDeclarations(styleProto: CSSStyleDeclaration | undefined) {
+  if (!styleProto || patchedStylePrototypes.has(styleProto)) {
+    return;
+  }
+  patchedStylePrototypes.add(styleProto);
+
+  const originalSetProperty = styleProto.setProperty;
+  styleProto.setProperty = function setProperty(
+    this: CSSStyleDeclaration,
+    propertyName: string,
+    value: string | null,
+    priority?: string,
+  ) {
+    return interceptStyleChange(
+      this,
+      typeof value === "string" ? `${propertyName}: ${value}` : undefined,
+      () => originalSetProperty.call(this, propertyName, value, priority),
+    );
+  };
+
+  const cssTextDescriptor = Object.getOwnPropertyDescriptor(
+    styleProto,
+    "cssText",
+  );
+  if (cssTextDescriptor?.set) {
+    Object.defineProperty(styleProto, "cssText", {
+      ...cssTextDescriptor,
+      set(this: CSSStyleDeclaration, value: string) {
+        interceptStyleChange(this, String(value), () =>
+          cssTextDescriptor.set?.call(this, value),
+        );
+      },
+    });
+  }
+
+  // `style.backgroundImage = ...` goes straight to the property setter.
+  for (const name of Object.getOwnPropertyNames(styleProto)) {
+    if (name === "cssText" || !URL_PROPERTY_PATTERN.test(name)) {
+      continue;
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(styleProto, name);
+    if (!descriptor?.set || !descriptor.configurable) {
+      continue;
+    }
+    const declaration = toCssPropertyName(name);
+    Object.defineProperty(styleProto, name, {
+      ...descriptor,
+      set(this: CSSStyleDeclaration, value: unknown) {
+        interceptStyleChange(
+          this,
+          typeof value === "string" ? `${declaration}: ${value}` : undefined,
+          () => descriptor.set?.call(this, value),
+        );
+      },
+    });
+  }
+}
+
+type StyleSheetLike = {
+  cssRules: ArrayLike<{ cssText: string }>;
+  insertRule(rule: string, index?: number): number;
+  deleteRule(index: number): void;
+  replace?(text: string): Promise<unknown>;
+  replaceSync?(text: string): void;
+};
+
+// Constructed sheets only load anything once they are adopted, and never
+// load @import rules at all.
+const constructedSheets = new WeakSet<object>();
+const adoptedSheets = new WeakSet<object>();
+
+function isPendingSheet(sheet: object) {
+  return constructedSheets.has(sheet) && !adoptedSheets.has(sheet);
+}
+
+function sheetText(sheet: StyleSheetLike) {
+  return Array.from(sheet.cssRules, (rule) => rule.cssText).join("\n");
+}
+
+function patchStyleSheetPrototype(sheetProto: StyleSheetLike) {
+  if (patchedStylePrototypes.has(sheetProto)) {
+    return;
+  }
+  patchedStylePrototypes.add(sheetProto);
+  const originalInsertRule = sheetProto.insertRule;
+
+  sheetProto.insertRule = function insertRule(
+    this: StyleSheetLike,
+    rule: string,
+    index?: number,
+  ) {
+    const result = originalInsertRule.call(this, rule, index);
+    if (!isPendingSheet(this)) {
+      cssTextInterceptors.get(this)?.(
+        String(rule),
+        !constructedSheets.has(this),
+      );
+    }
+    return result;
+  };
+
+  sheetProto.replaceSync = function replaceSync(
+    this: StyleSheetLike,
+    text: string,
+  ) {
+    while (this.cssRules.length > 0) {
+      this.deleteRule(0);
+    }
+    for (const rule of splitCssRules(String(text))) {
+      if (/^@import\b/i.test(rule)) {
+        continue;
+      }
+      try {
+        originalInsertRule.call(this, rule, this.cssRules.length);
+      } catch {
+        // Invalid rules are dropped, as a browser would.
+      }
+    }
+    if (!isPendingSheet(this)) {
+      cssTextInterceptors.get(this)?.(String(text), false);
+    }
+  };
+
+  sheetProto.replace = function replace(this: StyleSheetLike, text: string) {
+    try {
+      this.replaceSync?.(text);
+      return Promise.resolve(this);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  };
+}
+
+function patchStyleSheets(
+  window: DOMWindow,
+  interceptCssText: CssTextInterceptor,
+) {
+  const OriginalStyleSheet = window.CSSStyleSheet as unknown as
+    | (new (...args: unknown[]) => StyleSheetLike)
+    | undefined;
+  if (!OriginalStyleSheet) {
+    return;
+  }
+  patchStyleSheetPrototype(OriginalStyleSheet.prototype);
+
+  const StyleSheet = new Proxy(OriginalStyleSheet, {
+    construct(target, args, newTarget) {
+      const sheet = Reflect.construct(target, args, newTarget) as object;
+      constructedSheets.add(sheet);
+      cssTextInterceptors.set(sheet, interceptCssText);
+      return sheet;
+    },
+  });
+  Object.defineProperty(window, "CSSStyleSheet", {
+    configurable: true,
+    writable: true,
+    value: StyleSheet,
+  });
+
+  const adoptedLists = new WeakMap<object, StyleSheetLike[]>();
+  const adoptedDescriptor: PropertyDescriptor = {
+    configurable: true,
+    enumerable: true,
+    get(this: object) {
+      return adoptedLists.get(this) ?? [];
+    },
+    set(this: object, sheets: Iterable<StyleSheetLike>) {
+      const list = Array.from(sheets);
+      for (const sheet of list) {
+        if (isPendingSheet(sheet)) {
+          adoptedSheets.add(sheet);
+          interceptCssText(sheetText(sheet), false);
+        }
+      }
+      adoptedLists.set(this, list);
+    },
+  };
+  for (const owner of [window.Document, window.ShadowRoot]) {
+    if (owner && !("adoptedStyleSheets" in owner.prototype)) {
+      Object.defineProperty(
+        owner.prototype,
+        "adoptedStyleSheets",
+        adoptedDescriptor,
+      );
+    }
+  }
+}
+
+type LocationImpl = {
+  assign(url: string): void;
+  replace(url: string): void;
+  href: string;
+};
+
+function patchLocation(
+  window: DOMWindow,
+  interceptNavigation: (url: string, discoveredBy: string) => boolean,
+) {
+  // Location members are unforgeable on the wrapper, so patch the jsdom
+  // implementation object behind it instead.
+  const location = window.location as unknown as Record<symbol, unknown>;
+  const implSymbol = Object.getOwnPropertySymbols(location).find(
+    (symbol) => symbol.description === "impl",
+  );
+  const impl = implSymbol
+    ? (location[implSymbol] as LocationImpl | undefined)
+    : undefined;
+  if (!impl) {
+    return;
+  }
+
+  const implProto = Object.getPrototypeOf(impl) as LocationImpl;
+  const hrefDescriptor = Object.getOwnPropertyDescriptor(implProto, "href");
+
+  impl.assign = function assign(url: string) {
+    if (!interceptNavigation(String(url), "location.assign()")) {
+      implProto.assign.call(this, url);
+    }
+  };
+
+  impl.replace = function replace(url: string) {
+    if (!interceptNavigation(String(url), "location.replace()")) {
+      implProto.replace.call(this, url);
+    }
+  };
+
+  if (hrefDescriptor?.get && hrefDescriptor.set) {
+    Object.defineProperty(impl, "href", {
+      configurable: true,
+      get() {
+        return hrefDescriptor.get?.call(this);
+      },
+      set(value: string) {
+        if (!interceptNavigation(String(value), "location.href")) {
+          hrefDescriptor.set?.call(this, value);
+        }
+      },
+    });
+  }
+}
+
+function isInPageNavigation(window: DOMWindow, url: string) {
+  if (url.toLowerCase().startsWith("javascript:")) {
+    return true;
+  }
+  try {
+    const target = new URL(url);
+    const current = new URL(window.document.URL);
+    target.hash = "";
+    current.hash = "";
+    return url.includes("#") && target.href === current.href;
+  } catch {
+    return false;
+  }
+}
+
+type InterceptedXhr = XMLHttpRequest & {
+  _interceptorRequest?: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+  };
+};
+
+function readHeaders(headers: unknown) {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== "object") {
+    return result;
+  }
+
+  const add = (name: unknown, value: unknown) => {
+    result[String(name).toLowerCase()] = String(value);
+  };
+
+  if (Array.isArray(headers)) {
+    for (const pair of headers) {
+      if (Array.isArray(pair) && pair.length === 2) {
+        add(pair[0], pair[1]);
+      }
+    }
+  } else if (typeof (headers as { forEach?: unknown }).forEach === "function") {
+    (headers as Headers).forEach((value, name) => add(name, value));
+  } else {
+    for (const [name, value] of Object.entries(headers)) {
+      add(name, value);
+    }
+  }
+
+  return result;
+}
+
+function serializeBody(window: DOMWindow, body: unknown): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === "string") {
+    return body;
+  }
+  if (body instanceof window.URLSearchParams) {
+    return body.toString();
+  }
+  if (body instanceof window.FormData) {
+    const params = new URLSearchParams();
+    body.forEach((value, name) => {
+      params.append(
+        name,
+        typeof value === "string" ? value : `[file ${value.name}]`,
+      );
+    });
+    return params.toString();
+  }
+  if (body instanceof window.Blob) {
+    return `[blob ${body.size} bytes]`;
+  }
+  if (body instanceof window.Document) {
+    return new window.XMLSerializer().serializeToString(body);
+  }
+  if (body instanceof ArrayBuffer || body instanceof window.ArrayBuffer) {
+    return Buffer.from(body as ArrayBuffer).toString();
+  }
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(
+      body.buffer,
+      body.byteOffset,
+      body.byteLength,
+    ).toString();
+  }
+  return String(body);
+}
+
 function scanDocumentRequests(
   window: DOMWindow,
   interceptor: RequestInterceptor,
+  device?: DeviceOptions,
 ) {
   const { document } = window;
   const referrer = document.URL;
@@ -448,23 +1225,27 @@ function scanDocumentRequests(
   const record = (
     url: string,
     source: "resource" | "img",
+    discoveredBy: string,
     element?: HTMLImageElement | HTMLIFrameElement | HTMLLinkElement,
+    selected?: boolean,
   ) => {
     void Promise.resolve(
       interceptor(url, {
         element,
         referrer,
         source,
+        discoveredBy,
+        ...(selected !== undefined ? { selected } : {}),
       }),
     );
   };
 
-  const parseSrcsetUrls = (value: string) => {
-    return value
-      .split(",")
-      .map((candidate) => candidate.trim().split(/\s+/)[0])
-      .filter((url) => url.length > 0);
-  };
+  // Responsive image candidates are only marked when a device is emulated.
+  const isSelected = (element: Element, url: string | null) =>
+    device ? isSelectedCandidate(element, url ?? "", device) : undefined;
+
+  const parseSrcsetUrls = (value: string) =>
+    parseSrcset(value).map((candidate) => candidate.url);
 
   const shouldInterceptLinkRel = (rel: string) => {
     const normalized = rel.toLowerCase();
@@ -472,20 +1253,27 @@ function scanDocumentRequests(
       normalized.includes("preload") ||
       normalized.includes("prefetch") ||
       normalized.includes("stylesheet") ||
-      normalized.includes("icon")
+      normalized.includes("icon") ||
+      normalized.includes("manifest")
     );
   };
 
   document.querySelectorAll("img[src]").forEach((img) => {
     if (img instanceof window.HTMLImageElement && img.src) {
-      record(img.src, "img", img);
+      record(
+        img.src,
+        "img",
+        "img[src]",
+        img,
+        isSelected(img, img.getAttribute("src")),
+      );
     }
   });
 
   document.querySelectorAll("img[srcset]").forEach((img) => {
     if (img instanceof window.HTMLImageElement) {
       for (const url of parseSrcsetUrls(img.getAttribute("srcset") ?? "")) {
-        record(url, "img", img);
+        record(url, "img", "img[srcset]", img, isSelected(img, url));
       }
     }
   });
@@ -493,7 +1281,7 @@ function scanDocumentRequests(
   document.querySelectorAll("source[src]").forEach((source) => {
     const src = source.getAttribute("src");
     if (src) {
-      record(src, "resource");
+      record(src, "resource", "source[src]");
     }
   });
 
@@ -501,67 +1289,90 @@ function scanDocumentRequests(
     const srcset = source.getAttribute("srcset");
     if (srcset) {
       for (const url of parseSrcsetUrls(srcset)) {
-        record(url, "resource");
+        record(
+          url,
+          "resource",
+          "source[srcset]",
+          undefined,
+          isSelected(source, url),
+        );
       }
     }
   });
 
   document.querySelectorAll("script[src]").forEach((script) => {
     if (script instanceof window.HTMLScriptElement && script.src) {
-      record(script.src, "resource");
+      record(script.src, "resource", "script[src]");
     }
   });
 
   document.querySelectorAll("iframe[src]").forEach((iframe) => {
     if (iframe instanceof window.HTMLIFrameElement && iframe.src) {
-      record(iframe.src, "resource", iframe);
+      record(iframe.src, "resource", "iframe[src]", iframe);
     }
   });
 
   document.querySelectorAll("video[src], audio[src]").forEach((media) => {
     const src = media.getAttribute("src");
     if (src) {
-      record(src, "resource");
+      record(src, "resource", `${media.localName}[src]`);
     }
   });
 
   document.querySelectorAll("video[poster]").forEach((video) => {
     const poster = video.getAttribute("poster");
     if (poster) {
-      record(poster, "resource");
+      record(poster, "resource", "video[poster]");
     }
   });
 
   document.querySelectorAll("track[src]").forEach((track) => {
     const src = track.getAttribute("src");
     if (src) {
-      record(src, "resource");
+      record(src, "resource", "track[src]");
     }
   });
 
   document.querySelectorAll("embed[src]").forEach((embed) => {
     const src = embed.getAttribute("src");
     if (src) {
-      record(src, "resource");
+      record(src, "resource", "embed[src]");
     }
   });
 
   document.querySelectorAll("object[data]").forEach((object) => {
     const data = object.getAttribute("data");
     if (data) {
-      record(data, "resource");
+      record(data, "resource", "object[data]");
     }
   });
 
+  for (const reference of extractSvgReferences(document)) {
+    void Promise.resolve(
+      interceptor(reference.url, {
+        referrer,
+        source: reference.type === "image" ? "img" : "resource",
+        discoveredBy: reference.discoveredBy,
+      }),
+    );
+  }
+
   document.querySelectorAll("link[rel]").forEach((link) => {
     if (!(link instanceof window.HTMLLinkElement)) {
       return;
     }
     const rel = link.getAttribute("rel") ?? "";
+    const isImagePreload = isResponsivePreload(link);
     if (shouldInterceptLinkRel(rel)) {
       const href = link.getAttribute("href") ?? link.href;
       if (href) {
-        record(href, "resource", link);
+        record(
+          href,
+          "resource",
+          "link[href]",
+          link,
+          isImagePreload ? isSelected(link, href) : undefined,
+        );
       }
     }
 
@@ -569,7 +1380,13 @@ function scanDocumentRequests(
       const imagesrcset = link.getAttribute("imagesrcset");
       if (imagesrcset) {
         for (const url of parseSrcsetUrls(imagesrcset)) {
-          record(url, "resource", link);
+          record(
+            url,
+            "resource",
+            "link[imagesrcset]",
+            link,
+            isImagePreload ? isSelected(link, url) : undefined,
+          );
         }
       }
     }
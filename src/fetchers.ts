@@ -0,0 +1,176 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { FetchedResource, ResourceFetcher } from "./types.js";
+
+export type MapFetcherEntry =
+  | string
+  | Buffer
+  | {
+      body: string | Buffer;
+      status?: number;
+      headers?: Record<string, string>;
+      contentType?: string;
+      url?: string;
+    };
+
+export type DirectoryFetcherOptions = {
+  directory: string;
+  origin: string;
+  indexFile?: string;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".css": "text/css",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".js": "application/javascript",
+  ".cjs": "application/javascript",
+  ".mjs": "application/javascript",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".txt": "text/plain",
+};
+
+export function createGlobalFetcher(): ResourceFetcher {
+  return async (url, init) => {
+    if (typeof fetch !== "function") {
+      return null;
+    }
+
+    const response = await fetch(url, { signal: init?.signal });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return {
+      body: await response.text(),
+      status: response.status,
+      headers,
+      url: response.url || url,
+    };
+  };
+}
+
+export function createMapFetcher(
+  entries: Map<string, MapFetcherEntry> | Record<string, MapFetcherEntry>,
+): ResourceFetcher {
+  const resources =
+    entries instanceof Map ? entries : new Map(Object.entries(entries));
+
+  return async (url) => {
+    const entry = resources.get(url);
+    if (entry === undefined) {
+      return notFound(url);
+    }
+
+    if (typeof entry === "string" || Buffer.isBuffer(entry)) {
+      return {
+        body: entry.toString(),
+        status: 200,
+        headers: contentTypeHeaders(guessContentType(url)),
+        url,
+      };
+    }
+
+    const headers = normalizeHeaders(entry.headers);
+    const contentType = entry.contentType ?? guessContentType(url);
+    if (contentType && !headers["content-type"]) {
+      headers["content-type"] = contentType;
+    }
+
+    return {
+      body: entry.body.toString(),
+      status: entry.status ?? 200,
+      headers,
+      url: entry.url ?? url,
+    };
+  };
+}
+
+export function createDirectoryFetcher(
+  options: DirectoryFetcherOptions,
+): ResourceFetcher {
+  const root = path.resolve(options.directory);
+  const origin = new URL(options.origin).origin;
+  const indexFile = options.indexFile ?? "index.html";
+
+  return async (url, init) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (parsed.origin !== origin) {
+      return null;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(parsed.pathname);
+    } catch {
+      return notFound(url);
+    }
+    if (pathname.endsWith("/")) {
+      pathname += indexFile;
+    }
+
+    const filePath = path.resolve(root, `.${pathname}`);
+    if (filePath !== root && !filePath.startsWith(`${root}${path.sep}`)) {
+      return notFound(url);
+    }
+
+    try {
+      const body = await readFile(filePath, {
+        encoding: "utf8",
+        signal: init?.signal,
+      });
+      return {
+        body,
+        status: 200,
+        headers: contentTypeHeaders(guessContentType(filePath)),
+        url,
+      };
+    } catch {
+      return notFound(url);
+    }
+  };
+}
+
+export function notFound(url: string): FetchedResource {
+  return {
+    body: "",
+    status: 404,
+    headers: {},
+    url,
+  };
+}
+
+export function normalizeHeaders(headers: Record<string, string> | undefined) {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    normalized[key.toLowerCase()] = value;
+  }
+  return normalized;
+}
+
+function contentTypeHeaders(
+  contentType: string | undefined,
+): Record<string, string> {
+  return contentType ? { "content-type": contentType } : {};
+}
+
+export function guessContentType(url: string) {
+  const cleanUrl = url.split("?")[0].split("#")[0];
+  const extension = path.extname(cleanUrl).toLowerCase();
+  return CONTENT_TYPES[extension];
+}
@@ -0,0 +1,72 @@
+import type { RequestRecord } from "./lighterceptor.js";
+import type { RequestSource, ResourceKind } from "./types.js";
+
+export const DOCUMENT_NODE_ID = "document";
+
+export type RequestGraphNode = {
+  id: string;
+  kind?: ResourceKind;
+  fetched: boolean;
+};
+
+export type RequestGraphEdge = {
+  from: string;
+  to: string;
+  source: RequestSource | "unknown";
+  discoveredBy: string;
+};
+
+export type RequestGraph = {
+  nodes: RequestGraphNode[];
+  edges: RequestGraphEdge[];
+};
+
+export function buildRequestGraph(
+  requests: RequestRecord[],
+  fetchedKinds: Map<string, ResourceKind | undefined> = new Map(),
+): RequestGraph {
+  const nodes = new Map<string, RequestGraphNode>();
+  const edges = new Map<string, RequestGraphEdge>();
+
+  const addNode = (id: string) => {
+    if (nodes.has(id)) {
+      return;
+    }
+    if (id === DOCUMENT_NODE_ID) {
+      nodes.set(id, { id, fetched: false });
+      return;
+    }
+    nodes.set(id, {
+      id,
+      kind: fetchedKinds.get(id),
+      fetched: fetchedKinds.has(id),
+    });
+  };
+
+  addNode(DOCUMENT_NODE_ID);
+
+  for (const request of requests) {
+    addNode(request.initiator);
+    addNode(request.url);
+
+    const key = [
+      request.initiator,
+      request.url,
+      request.source,
+      request.discoveredBy,
+    ].join("\n");
+    if (!edges.has(key)) {
+      edges.set(key, {
+        from: request.initiator,
+        to: request.url,
+        source: request.source,
+        discoveredBy: request.discoveredBy,
+      });
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+  };
+}
@@ -0,0 +1,351 @@
+import { createRequire } from "node:module";
+
+import { createMapFetcher, type MapFetcherEntry } from "./fetchers.js";
+import type { LighterceptorResult, RequestRecord } from "./lighterceptor.js";
+import type { FetchedResource, ResourceFetcher } from "./types.js";
+
+export type HarHeader = {
+  name: string;
+  value: string;
+};
+
+export type HarQueryParam = {
+  name: string;
+  value: string;
+};
+
+export type HarContent = {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+};
+
+export type HarPostData = {
+  mimeType: string;
+  text: string;
+};
+
+export type HarRequest = {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: [];
+  headers: HarHeader[];
+  queryString: HarQueryParam[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+};
+
+export type HarResponse = {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: [];
+  headers: HarHeader[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  // Set when a followed redirect served the body from another URL.
+  _finalUrl?: string;
+};
+
+export type HarEntry = {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _source?: RequestRecord["source"];
+  _initiator?: string;
+  _discoveredBy?: string;
+  _virtualTime?: number;
+};
+
+export type HarPage = {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: Record<string, never>;
+};
+
+export type Har = {
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+};
+
+export type HarExportOptions = {
+  pageId?: string;
+  creator?: {
+    name: string;
+    version: string;
+  };
+};
+
+// Both src/ and dist/ sit next to package.json.
+const PACKAGE = createRequire(import.meta.url)("../package.json") as {
+  name: string;
+  version: string;
+};
+const DEFAULT_PAGE_ID = "page_1";
+const HTTP_VERSION = "HTTP/1.1";
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  301: "Moved Permanently",
+  302: "Found",
+  304: "Not Modified",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+export function toHar(
+  result: LighterceptorResult,
+  options: HarExportOptions = {},
+): Har {
+  const pageId = options.pageId ?? DEFAULT_PAGE_ID;
+
+  return {
+    log: {
+      version: "1.2",
+      creator: options.creator ?? {
+        name: PACKAGE.name,
+        version: PACKAGE.version,
+      },
+      pages: [
+        {
+          startedDateTime: result.capturedAt,
+          id: pageId,
+          title: result.title ?? "",
+          pageTimings: {},
+        },
+      ],
+      entries: result.requests.map((request) =>
+        toHarEntry(request, result.responses[request.url], pageId),
+      ),
+    },
+  };
+}
+
+export function harToFixtures(har: Har): Map<string, MapFetcherEntry> {
+  const responses = new Map<string, HarResponse>();
+  for (const entry of har.log.entries) {
+    // Requests that were only recorded, never fetched, carry status 0.
+    if (entry.response.status > 0 && !responses.has(entry.request.url)) {
+      responses.set(entry.request.url, entry.response);
+    }
+  }
+
+  const fixtures = new Map<string, MapFetcherEntry>();
+  for (const url of responses.keys()) {
+    const { finalUrl, response } = followRedirects(url, responses);
+    const headers = fromHarHeaders(response.headers);
+    if (response.content.mimeType && !hasHeader(headers, "content-type")) {
+      headers["content-type"] = response.content.mimeType;
+    }
+
+    fixtures.set(url, {
+      body: decodeContent(response.content),
+      status: response.status,
+      headers,
+      url: finalUrl,
+    });
+  }
+
+  return fixtures;
+}
+
+export function createHarFetcher(har: Har): ResourceFetcher {
+  return createMapFetcher(harToFixtures(har));
+}
+
+function toHarEntry(
+  request: RequestRecord,
+  response: FetchedResource | undefined,
+  pageId: string,
+): HarEntry {
+  return {
+    pageref: pageId,
+    startedDateTime: new Date(request.timestamp).toISOString(),
+    time: 0,
+    request: {
+      method: request.method ?? "GET",
+      url: request.url,
+      httpVersion: HTTP_VERSION,
+      cookies: [],
+      headers: toHarHeaders(request.headers ?? {}),
+      queryString: toQueryString(request.url),
+      ...(request.body !== undefined
+        ? {
+            postData: {
+              mimeType: request.headers?.["content-type"] ?? "",
+              text: request.body,
+            },
+          }
+        : {}),
+      headersSize: -1,
+      bodySize:
+        request.body !== undefined ? Buffer.byteLength(request.body) : -1,
+    },
+    response: response ? toHarResponse(request.url, response) : emptyResponse(),
+    cache: {},
+    timings: {
+      send: 0,
+      wait: 0,
+      receive: 0,
+    },
+    _source: request.source,
+    _initiator: request.initiator,
+    _discoveredBy: request.discoveredBy,
+    _virtualTime: request.virtualTime,
+  };
+}
+
+function toHarResponse(url: string, response: FetchedResource): HarResponse {
+  const headers = toHarHeaders(response.headers);
+  const mimeType =
+    headers.find((header) => header.name.toLowerCase() === "content-type")
+      ?.value ?? "x-unknown";
+  const size = Buffer.byteLength(response.body);
+  const location = headers.find(
+    (header) => header.name.toLowerCase() === "location",
+  )?.value;
+  const isRedirect = response.status >= 300 && response.status < 400;
+
+  return {
+    status: response.status,
+    statusText: STATUS_TEXT[response.status] ?? "",
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers,
+    content: {
+      size,
+      mimeType,
+      text: response.body,
+    },
+    redirectURL: isRedirect && location ? location : "",
+    headersSize: -1,
+    bodySize: size,
+    ...(response.url && response.url !== url
+      ? { _finalUrl: response.url }
+      : {}),
+  };
+}
+
+function emptyResponse(): HarResponse {
+  return {
+    status: 0,
+    statusText: "",
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers: [],
+    content: {
+      size: 0,
+      mimeType: "x-unknown",
+    },
+    redirectURL: "",
+    headersSize: -1,
+    bodySize: -1,
+  };
+}
+
+function toQueryString(url: string): HarQueryParam[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function followRedirects(url: string, responses: Map<string, HarResponse>) {
+  const seen = new Set<string>();
+  let finalUrl = url;
+  let response = responses.get(url) as HarResponse;
+
+  while (
+    response.redirectURL &&
+    response.status >= 300 &&
+    response.status < 400 &&
+    !seen.has(finalUrl)
+  ) {
+    seen.add(finalUrl);
+    const target = resolveRedirect(response.redirectURL, finalUrl);
+    if (!target) {
+      break;
+    }
+    const next = responses.get(target);
+    if (!next) {
+      break;
+    }
+    finalUrl = target;
+    response = next;
+  }
+
+  // Exported captures keep the post-redirect body on the original URL.
+  if (response._finalUrl) {
+    finalUrl = response._finalUrl;
+  }
+
+  return { finalUrl, response };
+}
+
+function resolveRedirect(location: string, baseUrl: string) {
+  try {
+    return new URL(location, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function fromHarHeaders(headers: HarHeader[]) {
+  const result: Record<string, string> = {};
+  for (const header of headers) {
+    result[header.name.toLowerCase()] = header.value;
+  }
+  return result;
+}
+
+function hasHeader(headers: Record<string, string>, name: string) {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+}
+
+function decodeContent(content: HarContent) {
+  if (!content.text) {
+    return "";
+  }
+  if (content.encoding === "base64") {
+    return Buffer.from(content.text, "base64").toString();
+  }
+  return content.text;
+}
@@ -0,0 +1,211 @@
+// `null` addresses block a specifier, as non-string values do in the spec.
+export type ImportMap = {
+  imports?: Record<string, string | null>;
+  scopes?: Record<string, Record<string, string | null>>;
+};
+
+// Keys and addresses are resolved and sorted longest-first, as the spec's
+// "sort and normalize" steps do. A `null` address blocks the specifier.
+type SpecifierMap = Array<[string, string | null]>;
+
+export type NormalizedImportMap = {
+  imports: SpecifierMap;
+  scopes: Array<[string, SpecifierMap]>;
+};
+
+const SPECIAL_SCHEMES = new Set([
+  "ftp:",
+  "file:",
+  "http:",
+  "https:",
+  "ws:",
+  "wss:",
+]);
+
+export function parseImportMap(
+  text: string,
+  baseUrl?: string,
+): NormalizedImportMap | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(parsed)) {
+    return undefined;
+  }
+  return normalizeImportMap(parsed as ImportMap, baseUrl);
+}
+
+export function normalizeImportMap(
+  map: ImportMap,
+  baseUrl?: string,
+): NormalizedImportMap {
+  const scopes: Array<[string, SpecifierMap]> = [];
+  if (isRecord(map.scopes)) {
+    for (const [prefix, imports] of Object.entries(map.scopes)) {
+      const scopeUrl = parseUrl(prefix, baseUrl);
+      if (scopeUrl && isRecord(imports)) {
+        scopes.push([scopeUrl, normalizeSpecifierMap(imports, baseUrl)]);
+      }
+    }
+  }
+  return {
+    imports: isRecord(map.imports)
+      ? normalizeSpecifierMap(map.imports, baseUrl)
+      : [],
+    scopes: sortByKeyDescending(scopes),
+  };
+}
+
+// Entries already in `existing` win, as they do when a page adds a second
+// import map after modules have started resolving.
+export function mergeImportMaps(
+  existing: NormalizedImportMap | undefined,
+  next: NormalizedImportMap,
+): NormalizedImportMap {
+  if (!existing) {
+    return next;
+  }
+  const mergeSpecifiers = (current: SpecifierMap, added: SpecifierMap) =>
+    sortByKeyDescending([
+      ...current,
+      ...added.filter(([key]) => !current.some(([known]) => known === key)),
+    ]);
+
+  const scopes = new Map(existing.scopes);
+  for (const [prefix, imports] of next.scopes) {
+    scopes.set(prefix, mergeSpecifiers(scopes.get(prefix) ?? [], imports));
+  }
+  return {
+    imports: mergeSpecifiers(existing.imports, next.imports),
+    scopes: sortByKeyDescending([...scopes]),
+  };
+}
+
+// Resolves an import specifier the way a browser would, returning
+// `undefined` for bare specifiers the map does not cover and for blocked
+// ones. `baseUrl` is the URL of the importing module.
+export function resolveModuleSpecifier(
+  specifier: string,
+  baseUrl: string | undefined,
+  map?: NormalizedImportMap,
+): string | undefined {
+  const asUrl = parseUrlLikeSpecifier(specifier, baseUrl);
+  const normalized = asUrl ?? specifier;
+
+  if (map) {
+    const referrer = baseUrl ? parseUrl(baseUrl) : undefined;
+    for (const [prefix, imports] of map.scopes) {
+      if (
+        referrer &&
+        (prefix === referrer ||
+          (prefix.endsWith("/") && referrer.startsWith(prefix)))
+      ) {
+        const match = matchSpecifierMap(normalized, asUrl, imports);
+        if (match !== undefined) {
+          return match ?? undefined;
+        }
+      }
+    }
+    const match = matchSpecifierMap(normalized, asUrl, map.imports);
+    if (match !== undefined) {
+      return match ?? undefined;
+    }
+  }
+
+  return (
+    asUrl ??
+    (!baseUrl && isRelativeSpecifier(specifier) ? specifier : undefined)
+  );
+}
+
+function normalizeSpecifierMap(
+  imports: Record<string, unknown>,
+  baseUrl?: string,
+): SpecifierMap {
+  const entries: SpecifierMap = [];
+  for (const [key, value] of Object.entries(imports)) {
+    if (key === "") {
+      continue;
+    }
+    const normalizedKey = parseUrlLikeSpecifier(key, baseUrl) ?? key;
+    let address =
+      typeof value === "string" ? resolveAddress(value, baseUrl) : null;
+    if (address && normalizedKey.endsWith("/") && !address.endsWith("/")) {
+      address = null;
+    }
+    entries.push([normalizedKey, address]);
+  }
+  return sortByKeyDescending(entries);
+}
+
+function resolveAddress(address: string, baseUrl?: string) {
+  const resolved = parseUrlLikeSpecifier(address, baseUrl);
+  if (resolved) {
+    return resolved;
+  }
+  return !baseUrl && isRelativeSpecifier(address) ? address : null;
+}
+
+// Returns the resolved URL, `null` when the map blocks the specifier, or
+// `undefined` when no entry matches.
+function matchSpecifierMap(
+  normalized: string,
+  asUrl: string | undefined,
+  imports: SpecifierMap,
+): string | null | undefined {
+  for (const [key, address] of imports) {
+    if (key === normalized) {
+      return address;
+    }
+    if (
+      !key.endsWith("/") ||
+      !normalized.startsWith(key) ||
+      (asUrl !== undefined && !SPECIAL_SCHEMES.has(new URL(asUrl).protocol))
+    ) {
+      continue;
+    }
+    if (address === null) {
+      return null;
+    }
+    const rest = normalized.slice(key.length);
+    if (parseUrl(address) === undefined) {
+      return address + rest;
+    }
+    const resolved = parseUrl(rest, address);
+    // A match must not escape its prefix, e.g. with "../".
+    return resolved?.startsWith(address) ? resolved : null;
+  }
+  return undefined;
+}
+
+// Inputs without a URL keep relative specifiers and addresses as written,
+// like every other relative URL recorded for them.
+function isRelativeSpecifier(specifier: string) {
+  return /^\.{0,2}\//.test(specifier);
+}
+
+function parseUrlLikeSpecifier(specifier: string, baseUrl?: string) {
+  if (isRelativeSpecifier(specifier)) {
+    return baseUrl ? parseUrl(specifier, baseUrl) : undefined;
+  }
+  return parseUrl(specifier);
+}
+
+function parseUrl(url: string, baseUrl?: string) {
+  try {
+    return new URL(url, baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function sortByKeyDescending<T>(entries: Array<[string, T]>) {
+  return entries.sort(([a], [b]) => (a < b ? 1 : a > b ? -1 : 0));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
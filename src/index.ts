@@ -1,5 +1,69 @@
-export { createJSDOMWithInterceptor } from "./dom";
-export type { InterceptorOptions } from "./dom";
-export { Lighterceptor } from "./lighterceptor";
-export type { LighterceptorOptions } from "./lighterceptor";
-export type { FetchOptions, RequestInterceptor, RequestSource } from "./types";
+export { createVirtualClock } from "./clock.js";
+export type { VirtualClock } from "./clock.js";
+export { createJSDOMWithInterceptor } from "./dom.js";
+export type { InterceptorOptions } from "./dom.js";
+export {
+  createDirectoryFetcher,
+  createGlobalFetcher,
+  createMapFetcher,
+} from "./fetchers.js";
+export type { DirectoryFetcherOptions, MapFetcherEntry } from "./fetchers.js";
+export { buildRequestGraph, DOCUMENT_NODE_ID } from "./graph.js";
+export type {
+  RequestGraph,
+  RequestGraphEdge,
+  RequestGraphNode,
+} from "./graph.js";
+export { createHarFetcher, harToFixtures, toHar } from "./har.js";
+export type {
+  Har,
+  HarContent,
+  HarEntry,
+  HarExportOptions,
+  HarHeader,
+  HarPage,
+  HarPostData,
+  HarRequest,
+  HarResponse,
+} from "./har.js";
+export type { ImportMap } from "./import-map.js";
+export { Lighterceptor } from "./lighterceptor.js";
+export type {
+  LighterceptorEvent,
+  LighterceptorLimit,
+  LighterceptorOptions,
+  LighterceptorResult,
+  RequestRecord,
+  UnresolvedImport,
+} from "./lighterceptor.js";
+export { matchesMediaQuery, selectImageSource } from "./responsive.js";
+export type { DeviceOptions, ImageSourceSelection } from "./responsive.js";
+export { createRouteTable } from "./routes.js";
+export type {
+  Route,
+  RouteResponse,
+  RouteTable,
+  RouteTableOptions,
+  UnmatchedRequest,
+} from "./routes.js";
+export { createScopeMatcher } from "./scope.js";
+export type {
+  LighterceptorScope,
+  ScopeCandidate,
+  ScopeMatcher,
+  ScopeRule,
+  UrlPattern,
+} from "./scope.js";
+export type { SettleOptions } from "./settle.js";
+export type {
+  CssReferenceType,
+  FetchedResource,
+  FetchOptions,
+  RequestCredentialsMode,
+  RequestDetails,
+  RequestInterceptor,
+  RequestSource,
+  ResourceFetcher,
+  ResourceFetcherInit,
+  ResourceKind,
+} from "./types.js";
@@ -0,0 +1,969 @@
+export type JsReference = {
+  url: string;
+  discoveredBy: string;
+  line: number;
+  column: number;
+};
+
+export type JsDependencies = {
+  imports: JsReference[];
+  dynamicImports: JsReference[];
+  importScripts: JsReference[];
+  fetches: JsReference[];
+  xhrs: JsReference[];
+  beacons: JsReference[];
+  webSockets: JsReference[];
+  eventSources: JsReference[];
+  workers: JsReference[];
+  assets: JsReference[];
+};
+
+type JsToken = {
+  type:
+    | "identifier"
+    | "punctuator"
+    | "string"
+    | "template"
+    | "number"
+    | "regex";
+  value: string;
+  start: number;
+  end: number;
+  // Only string tokens and templates without substitutions are constants.
+  constant?: boolean;
+};
+
+type Range = { start: number; end: number };
+
+const PUNCTUATORS = [
+  ">>>=",
+  "...",
+  "===",
+  "!==",
+  "**=",
+  "<<=",
+  ">>=",
+  ">>>",
+  "&&=",
+  "||=",
+  "??=",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "?.",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "**",
+  "<<",
+  ">>",
+];
+
+// After these keywords a slash starts a regular expression, not a division.
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  "return",
+  "typeof",
+  "instanceof",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "case",
+  "do",
+  "else",
+  "yield",
+  "await",
+]);
+
+// `open()` is also a method of windows, IndexedDB, caches and many libraries,
+// so only a standard HTTP method as the first argument marks an XHR.
+const HTTP_METHODS = new Set([
+  "CONNECT",
+  "DELETE",
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PATCH",
+  "POST",
+  "PUT",
+  "TRACE",
+]);
+
+export function extractJsDependencies(jsText: string): JsDependencies {
+  const tokens = tokenizeJs(jsText);
+  const lineStarts = computeLineStarts(jsText);
+  const constants = new Map<string, string>();
+  const handledNew = new Set<number>();
+  const dependencies: JsDependencies = {
+    imports: [],
+    dynamicImports: [],
+    importScripts: [],
+    fetches: [],
+    xhrs: [],
+    beacons: [],
+    webSockets: [],
+    eventSources: [],
+    workers: [],
+    assets: [],
+  };
+  const seen = new Map<JsReference[], Set<string>>();
+
+  const add = (
+    list: JsReference[],
+    url: string | undefined,
+    discoveredBy: string,
+    at: number,
+  ) => {
+    if (!url) {
+      return;
+    }
+    const urls = seen.get(list) ?? new Set<string>();
+    seen.set(list, urls);
+    const key = `${discoveredBy} ${url}`;
+    if (urls.has(key)) {
+      return;
+    }
+    urls.add(key);
+    list.push({
+      url,
+      discoveredBy,
+      ...toPosition(lineStarts, tokens[at]?.start ?? 0),
+    });
+  };
+
+  const is = (index: number, type: JsToken["type"], value?: string) => {
+    const token = tokens[index];
+    return (
+      token !== undefined &&
+      token.type === type &&
+      (value === undefined || token.value === value)
+    );
+  };
+
+  const isPropertyAccess = (index: number) =>
+    is(index - 1, "punctuator", ".") || is(index - 1, "punctuator", "?.");
+
+  const findClosing = (open: number) => findClosingToken(tokens, open);
+
+  const splitArguments = (open: number): Range[] => {
+    const close = findClosing(open);
+    const ranges: Range[] = [];
+    let depth = 0;
+    let start = open + 1;
+    for (let index = open + 1; index < close; index += 1) {
+      const token = tokens[index];
+      if (token.type !== "punctuator") {
+        continue;
+      }
+      if ("([{".includes(token.value)) {
+        depth += 1;
+      } else if (")]}".includes(token.value)) {
+        depth -= 1;
+      } else if (token.value === "," && depth === 0) {
+        ranges.push({ start, end: index });
+        start = index + 1;
+      }
+    }
+    if (start < close) {
+      ranges.push({ start, end: close });
+    }
+    return ranges;
+  };
+
+  const isImportMetaUrl = ({ start, end }: Range) =>
+    end - start === 5 &&
+    is(start, "identifier", "import") &&
+    is(start + 1, "punctuator", ".") &&
+    is(start + 2, "identifier", "meta") &&
+    is(start + 3, "punctuator", ".") &&
+    is(start + 4, "identifier", "url");
+
+  // `new URL("./x", import.meta.url)` resolves against the module itself,
+  // which is the base we resolve every other reference against anyway.
+  const evaluateUrlConstructor = (range: Range) => {
+    if (
+      !is(range.start, "identifier", "new") ||
+      !is(range.start + 1, "identifier", "URL") ||
+      !is(range.start + 2, "punctuator", "(") ||
+      findClosing(range.start + 2) !== range.end - 1
+    ) {
+      return undefined;
+    }
+    const args = splitArguments(range.start + 2);
+    if (args.length !== 2 || !isImportMetaUrl(args[1])) {
+      return undefined;
+    }
+    handledNew.add(range.start);
+    return evaluate(args[0]);
+  };
+
+  const evaluate = (range: Range): string | undefined => {
+    let { start, end } = range;
+    while (
+      is(start, "punctuator", "(") &&
+      findClosing(start) === end - 1 &&
+      end - start > 2
+    ) {
+      start += 1;
+      end -= 1;
+    }
+    if (start >= end) {
+      return undefined;
+    }
+
+    const fromConstructor = evaluateUrlConstructor({ start, end });
+    if (fromConstructor !== undefined) {
+      return fromConstructor;
+    }
+
+    let value = "";
+    let expectOperand = true;
+    for (let index = start; index < end; index += 1) {
+      const token = tokens[index];
+      if (expectOperand) {
+        if (token.constant) {
+          value += token.value;
+        } else if (token.type === "identifier" && constants.has(token.value)) {
+          value += constants.get(token.value);
+        } else {
+          return undefined;
+        }
+      } else if (!(token.type === "punctuator" && token.value === "+")) {
+        return undefined;
+      }
+      expectOperand = !expectOperand;
+    }
+    return expectOperand ? undefined : value;
+  };
+
+  const firstArgument = (open: number) => {
+    const [first] = splitArguments(open);
+    return first ? evaluate(first) : undefined;
+  };
+
+  // Without semicolons, a line break ends the declaration unless the
+  // expression obviously continues with `+`.
+  const endsStatementOnNewline = (index: number) =>
+    index > 0 &&
+    jsText.slice(tokens[index - 1].start, tokens[index].start).includes("\n") &&
+    !is(index - 1, "punctuator", "+") &&
+    !is(index, "punctuator", "+");
+
+  const findFromClause = (index: number) =>
+    is(index, "identifier", "from") && is(index + 1, "string")
+      ? index + 1
+      : undefined;
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.type !== "identifier" || isPropertyAccess(index)) {
+      continue;
+    }
+
+    switch (token.value) {
+      case "const": {
+        if (is(index + 1, "identifier") && is(index + 2, "punctuator", "=")) {
+          let end = index + 3;
+          while (
+            end < tokens.length &&
+            !is(end, "punctuator", ";") &&
+            !is(end, "punctuator", ",") &&
+            !(end > index + 3 && endsStatementOnNewline(end))
+          ) {
+            end = is(end, "punctuator", "(") ? findClosing(end) + 1 : end + 1;
+          }
+          const value = evaluate({ start: index + 3, end });
+          if (value !== undefined) {
+            constants.set(tokens[index + 1].value, value);
+          }
+          // Remembering the value must not hide a `new URL()` initializer
+          // from the main loop, which still records it as an asset.
+          for (let next = index + 3; next < end; next += 1) {
+            handledNew.delete(next);
+          }
+        }
+        break;
+      }
+      case "import": {
+        if (is(index + 1, "punctuator", "(")) {
+          const open = index + 1;
+          add(
+            dependencies.dynamicImports,
+            firstArgument(open),
+            "import()",
+            open + 1,
+          );
+        } else if (is(index + 1, "string")) {
+          add(
+            dependencies.imports,
+            tokens[index + 1].value,
+            "import",
+            index + 1,
+          );
+        } else if (!is(index + 1, "punctuator", ".")) {
+          for (let next = index + 1; next < tokens.length; next += 1) {
+            if (
+              is(next, "punctuator", ";") ||
+              is(next, "identifier", "import")
+            ) {
+              break;
+            }
+            const source = findFromClause(next);
+            if (source !== undefined) {
+              add(dependencies.imports, tokens[source].value, "import", source);
+              break;
+            }
+          }
+        }
+        break;
+      }
+      case "export": {
+        let next = index + 1;
+        if (is(next, "punctuator", "{")) {
+          next = findClosing(next) + 1;
+        } else if (is(next, "punctuator", "*")) {
+          next += 1;
+          if (is(next, "identifier", "as")) {
+            next += 2;
+          }
+        } else {
+          break;
+        }
+        const source = findFromClause(next);
+        if (source !== undefined) {
+          add(
+            dependencies.imports,
+            tokens[source].value,
+            "export from",
+            source,
+          );
+        }
+        break;
+      }
+      case "importScripts": {
+        if (is(index + 1, "punctuator", "(")) {
+          for (const argument of splitArguments(index + 1)) {
+            add(
+              dependencies.importScripts,
+              evaluate(argument),
+              "importScripts()",
+              argument.start,
+            );
+          }
+        }
+        break;
+      }
+      case "new": {
+        const name = tokens[index + 1];
+        if (
+          handledNew.has(index) ||
+          name?.type !== "identifier" ||
+          !is(index + 2, "punctuator", "(")
+        ) {
+          break;
+        }
+        const open = index + 2;
+        if (name.value === "WebSocket") {
+          add(
+            dependencies.webSockets,
+            firstArgument(open),
+            "new WebSocket()",
+            open + 1,
+          );
+        } else if (name.value === "EventSource") {
+          add(
+            dependencies.eventSources,
+            firstArgument(open),
+            "new EventSource()",
+            open + 1,
+          );
+        } else if (name.value === "Worker" || name.value === "SharedWorker") {
+          add(
+            dependencies.workers,
+            firstArgument(open),
+            `new ${name.value}()`,
+            open + 1,
+          );
+        } else if (name.value === "URL") {
+          const url = evaluateUrlConstructor({
+            start: index,
+            end: findClosing(open) + 1,
+          });
+          add(dependencies.assets, url, "new URL()", open + 1);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  // Calls that are usually reached through a property access.
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.type !== "identifier" || !is(index + 1, "punctuator", "(")) {
+      continue;
+    }
+    const open = index + 1;
+
+    if (token.value === "fetch") {
+      add(dependencies.fetches, firstArgument(open), "fetch()", open + 1);
+    } else if (token.value === "sendBeacon") {
+      add(
+        dependencies.beacons,
+        firstArgument(open),
+        "navigator.sendBeacon()",
+        open + 1,
+      );
+    } else if (
+      token.value === "register" &&
+      is(index - 1, "punctuator", ".") &&
+      is(index - 2, "identifier", "serviceWorker")
+    ) {
+      add(
+        dependencies.workers,
+        firstArgument(open),
+        "navigator.serviceWorker.register()",
+        open + 1,
+      );
+    } else if (token.value === "open" && isPropertyAccess(index)) {
+      const [method, url] = splitArguments(open);
+      const methodName = method ? evaluate(method) : undefined;
+      if (url && methodName && HTTP_METHODS.has(methodName.toUpperCase())) {
+        add(
+          dependencies.xhrs,
+          evaluate(url),
+          "XMLHttpRequest.open()",
+          url.start,
+        );
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+export type ClassicScriptOptions = {
+  // Value of `import.meta.url`.
+  url: string;
+  // Global function called in place of `import()`.
+  importFunction: string;
+  // Global function called with a specifier and an export name ("default",
+  // "*" or a named export); its result stands in for the imported binding.
+  bindingFunction: string;
+};
+
+// jsdom cannot run modules, so module syntax is rewritten into a classic
+// script: static imports and exports are dropped (their targets are loaded
+// separately), imported names are bound to whatever `bindingFunction`
+// returns, `import.meta` becomes a plain object and the body runs in an async
+// function so top-level await keeps working. Removed code keeps its line
+// breaks, so runtime errors still point at the right line.
+export function toClassicScript(
+  jsText: string,
+  options: ClassicScriptOptions,
+): string {
+  const tokens = tokenizeJs(jsText);
+  const edits: Array<Range & { text: string }> = [];
+  const bindings: string[] = [];
+  let isModule = false;
+
+  const is = (index: number, type: JsToken["type"], value?: string) => {
+    const token = tokens[index];
+    return (
+      token !== undefined &&
+      token.type === type &&
+      (value === undefined || token.value === value)
+    );
+  };
+
+  const remove = (first: number, last: number) => {
+    if (
+      is(last + 1, "identifier", "with") ||
+      is(last + 1, "identifier", "assert")
+    ) {
+      if (is(last + 2, "punctuator", "{")) {
+        last = findClosingToken(tokens, last + 2);
+      }
+    }
+    if (is(last + 1, "punctuator", ";")) {
+      last += 1;
+    }
+    const start = tokens[first].start;
+    const end = tokens[Math.min(last, tokens.length - 1)].end;
+    edits.push({
+      start,
+      end,
+      text: jsText.slice(start, end).replace(/[^\n]/g, ""),
+    });
+    return last;
+  };
+
+  const findSource = (index: number) => {
+    for (let next = index; next < tokens.length; next += 1) {
+      if (is(next, "punctuator", ";")) {
+        return undefined;
+      }
+      if (is(next, "identifier", "from") && is(next + 1, "string")) {
+        return next + 1;
+      }
+    }
+    return undefined;
+  };
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (
+      token.type !== "identifier" ||
+      is(index - 1, "punctuator", ".") ||
+      is(index - 1, "punctuator", "?.")
+    ) {
+      continue;
+    }
+
+    if (token.value === "import") {
+      if (is(index + 1, "punctuator", "(")) {
+        edits.push({
+          start: token.start,
+          end: token.end,
+          text: options.importFunction,
+        });
+      } else if (
+        is(index + 1, "punctuator", ".") &&
+        is(index + 2, "identifier", "meta")
+      ) {
+        isModule = true;
+        edits.push({
+          start: token.start,
+          end: tokens[index + 2].end,
+          text: `({ url: ${JSON.stringify(options.url)} })`,
+        });
+        index += 2;
+      } else if (is(index + 1, "string")) {
+        isModule = true;
+        index = remove(index, index + 1);
+      } else if (
+        is(index + 1, "identifier") ||
+        is(index + 1, "punctuator", "{") ||
+        is(index + 1, "punctuator", "*")
+      ) {
+        const source = findSource(index + 1);
+        if (source !== undefined) {
+          isModule = true;
+          const specifier = JSON.stringify(tokens[source].value);
+          for (const [local, imported] of collectImportBindings(
+            tokens.slice(index + 1, source - 1),
+          )) {
+            bindings.push(
+              `${local} = ${options.bindingFunction}(${specifier}, ${JSON.stringify(imported)})`,
+            );
+          }
+          index = remove(index, source);
+        }
+      }
+      continue;
+    }
+
+    if (token.value !== "export") {
+      continue;
+    }
+    const next = tokens[index + 1];
+    if (is(index + 1, "punctuator", "{")) {
+      isModule = true;
+      const close = findClosingToken(tokens, index + 1);
+      const source =
+        is(close + 1, "identifier", "from") && is(close + 2, "string")
+          ? close + 2
+          : close;
+      index = remove(index, source);
+    } else if (is(index + 1, "punctuator", "*")) {
+      const source = findSource(index + 1);
+      if (source !== undefined) {
+        isModule = true;
+        index = remove(index, source);
+      }
+    } else if (is(index + 1, "identifier", "default")) {
+      isModule = true;
+      const declaration = is(index + 2, "identifier", "async")
+        ? index + 3
+        : index + 2;
+      const name = is(declaration, "identifier", "function")
+        ? declaration + (is(declaration + 1, "punctuator", "*") ? 2 : 1)
+        : is(declaration, "identifier", "class")
+          ? declaration + 1
+          : undefined;
+      // Named declarations stay declarations; anything else becomes an
+      // expression statement.
+      const keepsName =
+        name !== undefined &&
+        is(name, "identifier") &&
+        tokens[name].value !== "extends";
+      edits.push({
+        start: token.start,
+        end: tokens[index + 1].end,
+        text: keepsName ? "" : "void",
+      });
+      index += 1;
+    } else if (
+      next?.type === "identifier" &&
+      ["const", "let", "var", "function", "class", "async"].includes(next.value)
+    ) {
+      isModule = true;
+      edits.push({ start: token.start, end: token.end, text: "" });
+    }
+  }
+
+  let script = jsText;
+  for (const edit of edits.reverse()) {
+    script = script.slice(0, edit.start) + edit.text + script.slice(edit.end);
+  }
+  if (!isModule) {
+    return script;
+  }
+  if (script.startsWith("#!")) {
+    script = `//${script.slice(2)}`;
+  }
+  // Declared up front, as imports are hoisted; this keeps line numbers too.
+  const declarations =
+    bindings.length > 0 ? `const ${bindings.join(", ")};` : "";
+  return `(async () => {"use strict";${declarations}${script}\n})();`;
+}
+
+// Returns [local name, imported name] pairs for an import clause such as
+// `def, { a, b as c }` or `* as ns`.
+function collectImportBindings(clause: JsToken[]) {
+  const bindings: Array<[string, string]> = [];
+  let inBraces = false;
+  for (let index = 0; index < clause.length; index += 1) {
+    const token = clause[index];
+    if (token.type === "punctuator") {
+      if (token.value === "{") {
+        inBraces = true;
+      } else if (token.value === "}") {
+        inBraces = false;
+      } else if (token.value === "*" && clause[index + 2]) {
+        bindings.push([clause[index + 2].value, "*"]);
+        index += 2;
+      }
+      continue;
+    }
+    if (!inBraces) {
+      bindings.push([token.value, "default"]);
+      continue;
+    }
+    const renamed =
+      clause[index + 1]?.type === "identifier" &&
+      clause[index + 1].value === "as";
+    bindings.push([
+      renamed ? clause[index + 2].value : token.value,
+      token.value,
+    ]);
+    if (renamed) {
+      index += 2;
+    }
+  }
+  return bindings;
+}
+
+function findClosingToken(tokens: JsToken[], open: number) {
+  let depth = 0;
+  for (let index = open; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.type !== "punctuator") {
+      continue;
+    }
+    if ("([{".includes(token.value)) {
+      depth += 1;
+    } else if (")]}".includes(token.value)) {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return tokens.length;
+}
+
+function tokenizeJs(source: string): JsToken[] {
+  const tokens: JsToken[] = [];
+  // Brace depth inside each open template substitution.
+  const templates: number[] = [];
+  let index = 0;
+
+  if (source.startsWith("#!")) {
+    const end = source.indexOf("\n");
+    index = end === -1 ? source.length : end;
+  }
+
+  const previous = () => tokens[tokens.length - 1];
+
+  const slashStartsRegex = () => {
+    const token = previous();
+    if (!token) {
+      return true;
+    }
+    if (token.type === "identifier") {
+      return KEYWORDS_BEFORE_EXPRESSION.has(token.value);
+    }
+    if (token.type === "punctuator") {
+      return !(token.value === ")" || token.value === "]");
+    }
+    return false;
+  };
+
+  const readTemplate = (start: number, resumed: boolean) => {
+    // `index` points just past the backtick or the closing brace.
+    let value = "";
+    while (index < source.length) {
+      const char = source[index];
+      if (char === "\\") {
+        const { text, length } = readEscape(source, index);
+        value += text;
+        index += length;
+        continue;
+      }
+      if (char === "`") {
+        index += 1;
+        tokens.push({
+          type: "template",
+          value,
+          start,
+          end: index,
+          constant: !resumed,
+        });
+        return;
+      }
+      if (char === "$" && source[index + 1] === "{") {
+        index += 2;
+        tokens.push({ type: "template", value, start, end: index });
+        templates.push(0);
+        return;
+      }
+      value += char;
+      index += 1;
+    }
+    tokens.push({ type: "template", value, start, end: index });
+  };
+
+  while (index < source.length) {
+    const start = index;
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === "/" && source[index + 1] === "/") {
+      const end = source.indexOf("\n", index);
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (char === "/" && source[index + 1] === "*") {
+      const end = source.indexOf("*/", index + 2);
+      index = end === -1 ? source.length : end + 2;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      index += 1;
+      let value = "";
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\n") {
+          break;
+        }
+        if (source[index] === "\\") {
+          const { text, length } = readEscape(source, index);
+          value += text;
+          index += length;
+          continue;
+        }
+        value += source[index];
+        index += 1;
+      }
+      index += 1;
+      tokens.push({ type: "string", value, start, end: index, constant: true });
+      continue;
+    }
+
+    if (char === "`") {
+      index += 1;
+      readTemplate(start, false);
+      continue;
+    }
+
+    if (char === "}" && templates.length > 0) {
+      const depth = templates[templates.length - 1];
+      if (depth === 0) {
+        templates.pop();
+        index += 1;
+        readTemplate(start, true);
+        continue;
+      }
+      templates[templates.length - 1] = depth - 1;
+    } else if (char === "{" && templates.length > 0) {
+      templates[templates.length - 1] += 1;
+    }
+
+    const identifier =
+      /^[\p{ID_Start}$_#][\p{ID_Continue}$\u200c\u200d]*/u.exec(
+        source.slice(index, index + 256),
+      );
+    if (identifier && !/^#$/.test(identifier[0])) {
+      index += identifier[0].length;
+      tokens.push({
+        type: "identifier",
+        value: identifier[0],
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    const number =
+      /^(?:0[xob][\da-f_]+n?|\d[\d_]*\.?[\d_]*(?:e[+-]?\d+)?n?|\.\d[\d_]*(?:e[+-]?\d+)?)/i.exec(
+        source.slice(index, index + 256),
+      );
+    if (number) {
+      index += number[0].length;
+      tokens.push({ type: "number", value: number[0], start, end: index });
+      continue;
+    }
+
+    if (char === "/" && slashStartsRegex()) {
+      index = skipRegex(source, index);
+      tokens.push({
+        type: "regex",
+        value: source.slice(start, index),
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    const punctuator =
+      PUNCTUATORS.find((candidate) => source.startsWith(candidate, index)) ??
+      char;
+    index += punctuator.length;
+    tokens.push({ type: "punctuator", value: punctuator, start, end: index });
+  }
+
+  return tokens;
+}
+
+function readEscape(source: string, index: number) {
+  const next = source[index + 1] ?? "";
+  const simple: Record<string, string> = {
+    n: "\n",
+    r: "\r",
+    t: "\t",
+    b: "\b",
+    f: "\f",
+    v: "\v",
+    0: "\0",
+  };
+
+  if (next === "\r" && source[index + 2] === "\n") {
+    return { text: "", length: 3 };
+  }
+  if (next === "\n" || next === "\r") {
+    return { text: "", length: 2 };
+  }
+  if (next === "x") {
+    const hex = /^[\da-f]{2}/i.exec(source.slice(index + 2, index + 4));
+    if (hex) {
+      return {
+        text: String.fromCharCode(parseInt(hex[0], 16)),
+        length: 4,
+      };
+    }
+  }
+  if (next === "u") {
+    const braced = /^\{([\da-f]{1,6})\}/i.exec(source.slice(index + 2));
+    if (braced) {
+      const codePoint = parseInt(braced[1], 16);
+      return {
+        text: codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "",
+        length: 2 + braced[0].length,
+      };
+    }
+    const hex = /^[\da-f]{4}/i.exec(source.slice(index + 2, index + 6));
+    if (hex) {
+      return {
+        text: String.fromCharCode(parseInt(hex[0], 16)),
+        length: 6,
+      };
+    }
+  }
+  if (next in simple && !(next === "0" && /\d/.test(source[index + 2] ?? ""))) {
+    return { text: simple[next], length: 2 };
+  }
+  return { text: next, length: 2 };
+}
+
+function skipRegex(source: string, index: number) {
+  let inClass = false;
+  let position = index + 1;
+  while (position < source.length) {
+    const char = source[position];
+    if (char === "\\") {
+      position += 2;
+      continue;
+    }
+    if (char === "\n") {
+      return position;
+    }
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "]") {
+      inClass = false;
+    } else if (char === "/" && !inClass) {
+      position += 1;
+      while (position < source.length && /[\w$]/.test(source[position])) {
+        position += 1;
+      }
+      return position;
+    }
+    position += 1;
+  }
+  return position;
+}
+
+function computeLineStarts(source: string) {
+  const starts = [0];
+  for (let index = 0; index < source.length; index += 1) {
+    if (source[index] === "\n") {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
+
+function toPosition(lineStarts: number[], offset: number) {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
@@ -1,42 +1,170 @@
-import { createJSDOMWithInterceptor } from "./dom";
-import type { RequestSource } from "./types";
+import { type DOMWindow, JSDOM } from "jsdom";
+
+import { createVirtualClock, type VirtualClock } from "./clock.js";
+import { extractCssReferences } from "./css.js";
+import { createJSDOMWithInterceptor } from "./dom.js";
+import { createGlobalFetcher } from "./fetchers.js";
+import {
+  buildRequestGraph,
+  DOCUMENT_NODE_ID,
+  type RequestGraph,
+} from "./graph.js";
+import {
+  type ImportMap,
+  mergeImportMaps,
+  normalizeImportMap,
+  type NormalizedImportMap,
+  parseImportMap,
+  resolveModuleSpecifier,
+} from "./import-map.js";
+import {
+  extractJsDependencies,
+  type JsReference,
+  toClassicScript,
+} from "./js.js";
+import { extractManifestReferences } from "./manifest.js";
+import {
+  type DeviceOptions,
+  isResponsivePreload,
+  isSelectedCandidate,
+  parseSrcset,
+} from "./responsive.js";
+import { createScopeMatcher, type LighterceptorScope } from "./scope.js";
+import {
+  createActivityTracker,
+  DEFAULT_IDLE_MS,
+  DEFAULT_MAX_SETTLE_MS,
+  type SettleOptions,
+} from "./settle.js";
+import { extractSvgReferences, SVG_NAMESPACE } from "./svg.js";
+import type {
+  CssReferenceType,
+  FetchedResource,
+  FetchOptions,
+  RequestDetails,
+  RequestSource,
+  ResourceFetcher,
+  ResourceKind,
+} from "./types.js";
 
 export type LighterceptorOptions = {
   settleTimeMs?: number;
+  settle?: SettleOptions;
+  virtualTimeMs?: number;
   recursion?: boolean;
+  executeScripts?: boolean;
+  importMap?: ImportMap;
+  baseUrl?: string;
+  device?: DeviceOptions;
+  fetcher?: ResourceFetcher;
+  maxDepth?: number;
+  maxResources?: number;
+  maxRequests?: number;
+  maxBytes?: number;
+  concurrency?: number;
+  perHostConcurrency?: number;
+  scope?: LighterceptorScope;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 };
 
-export type RequestRecord = {
+export type LighterceptorLimit =
+  | "maxDepth"
+  | "maxResources"
+  | "maxRequests"
+  | "maxBytes";
+
+export type RequestRecord = RequestDetails & {
   url: string;
+  classification?: CssReferenceType;
+  position?: { line: number; column: number };
+  selected?: boolean;
   source: RequestSource | "unknown";
   timestamp: number;
+  depth: number;
+  initiator: string;
+  discoveredBy: string;
+  virtualTime?: number;
+};
+
+export type UnresolvedImport = {
+  specifier: string;
+  initiator: string;
+  discoveredBy: string;
+  position?: { line: number; column: number };
 };
 
 export type LighterceptorResult = {
   title?: string;
   capturedAt: string;
   requests: RequestRecord[];
+  graph: RequestGraph;
+  responses: Record<string, FetchedResource>;
+  unresolvedImports?: UnresolvedImport[];
+  truncated?: LighterceptorLimit;
+  aborted: boolean;
 };
 
+export type LighterceptorEvent =
+  | { type: "request"; request: RequestRecord }
+  | {
+      type: "resource";
+      url: string;
+      depth: number;
+      kind?: ResourceKind;
+      response: FetchedResource;
+    }
+  | { type: "document"; url?: string; depth: number; title?: string }
+  | { type: "finished"; result: LighterceptorResult };
+
+type EventSink = (event: LighterceptorEvent) => void;
+
 const DEFAULT_SETTLE_MS = 50;
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_PER_HOST_CONCURRENCY = 6;
+const SCRIPT_DOCUMENT =
+  "<!doctype html><html><head></head><body></body></html>";
+const SCRIPT_IMPORT_FUNCTION = "__lighterceptorImport__";
+const SCRIPT_BINDING_FUNCTION = "__lighterceptorBinding__";
+
+type RecordDetails = RequestDetails &
+  Pick<RequestRecord, "classification" | "position" | "selected">;
+
+type WindowRealmOptions = {
+  setup?: (window: DOMWindow) => void;
+  skip?: (url: string, source: RequestSource | "unknown") => boolean;
+};
 
-type ResourceKind = "html" | "css" | "js";
+type PendingResource = {
+  url: string;
+  kind?: ResourceKind;
+  depth: number;
+  importMap?: NormalizedImportMap;
+};
 
-type ResourceContent = {
-  text: string;
-  contentType?: string;
+type DiscoveryContext = {
+  depth: number;
+  documentUrl?: string;
+  records: RequestRecord[];
+  unresolved: UnresolvedImport[];
+  queued: PendingResource[];
+  clock?: VirtualClock;
+  importMap?: NormalizedImportMap;
 };
 
-type CssDependencies = {
-  imports: string[];
-  urls: string[];
+type AnalyzedResource = {
+  response: FetchedResource;
+  context?: DiscoveryContext;
+  bytes: number;
+  kind?: ResourceKind;
 };
 
-type JsDependencies = {
-  imports: string[];
-  importScripts: string[];
-  fetches: string[];
-  xhrs: string[];
+type ResourceContent = {
+  text: string;
+  contentType?: string;
+  url: string;
+  ok: boolean;
+  response: FetchedResource;
 };
 
 export class Lighterceptor {
@@ -49,109 +177,484 @@ export class Lighterceptor {
   }
 
   async run(): Promise<LighterceptorResult> {
+    return this.execute(() => undefined);
+  }
+
+  async *stream(): AsyncGenerator<LighterceptorEvent, void, undefined> {
+    const buffer: LighterceptorEvent[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failed = false;
+    let failure: unknown;
+    const stop = new AbortController();
+
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+
+    const execution = this.execute((event) => {
+      buffer.push(event);
+      notify();
+    }, stop.signal).then(
+      () => {
+        finished = true;
+        notify();
+      },
+      (error: unknown) => {
+        finished = true;
+        failed = true;
+        failure = error;
+        notify();
+      },
+    );
+
+    try {
+      while (true) {
+        const next = buffer.shift();
+        if (next) {
+          yield next;
+          continue;
+        }
+        if (finished) {
+          if (failed) {
+            throw failure;
+          }
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      // Leaving the loop early stops the walk before more resources load.
+      stop.abort();
+      await execution;
+    }
+  }
+
+  private async execute(
+    emit: EventSink,
+    stopSignal?: AbortSignal,
+  ): Promise<LighterceptorResult> {
     const requests: RequestRecord[] = [];
     const capturedAt = new Date().toISOString();
     const settleTimeMs = this.options.settleTimeMs ?? DEFAULT_SETTLE_MS;
+    const settle = this.options.settle ?? { strategy: "fixed" };
+    const virtualTimeMs = this.options.virtualTimeMs;
+    const inputUrl = this.options.baseUrl;
     const recursive = this.options.recursion ?? false;
-    const pending: Array<{ url: string; kind?: ResourceKind }> = [];
+    const executeScripts = this.options.executeScripts ?? false;
+    const device = this.options.device;
+    const fetcher = this.options.fetcher ?? createGlobalFetcher();
+    const controller = new AbortController();
+    const { signal } = controller;
+    // Stops fetches, settling and open windows. Aborting the run stops the
+    // work too, and so does a limit that truncates it.
+    const work = new AbortController();
+    const workSignal = work.signal;
+    const openWindows = new Set<DOMWindow>();
+    const stopWork = () => {
+      work.abort();
+      for (const window of openWindows) {
+        window.close();
+      }
+      openWindows.clear();
+    };
+    const abort = () => {
+      controller.abort();
+      stopWork();
+    };
+    const cleanups: Array<() => void> = [];
+    for (const external of [this.options.signal, stopSignal]) {
+      if (!external) {
+        continue;
+      }
+      if (external.aborted) {
+        abort();
+        continue;
+      }
+      external.addEventListener("abort", abort, { once: true });
+      cleanups.push(() => external.removeEventListener("abort", abort));
+    }
+    if (this.options.timeoutMs !== undefined) {
+      const timer = setTimeout(abort, this.options.timeoutMs);
+      cleanups.push(() => clearTimeout(timer));
+    }
+    const {
+      maxDepth = Infinity,
+      maxResources = Infinity,
+      maxRequests = Infinity,
+      maxBytes = Infinity,
+    } = this.options;
+    const concurrency = Math.max(
+      1,
+      this.options.concurrency ?? DEFAULT_CONCURRENCY,
+    );
+    const perHostConcurrency = Math.max(
+      1,
+      this.options.perHostConcurrency ?? DEFAULT_PER_HOST_CONCURRENCY,
+    );
+    const shouldRecord = createScopeMatcher(
+      this.options.scope?.record,
+      this.options.scope?.origin,
+    );
+    const shouldFollow = createScopeMatcher(
+      this.options.scope?.follow,
+      this.options.scope?.origin,
+    );
+    const pending: PendingResource[] = [];
     const processed = new Set<string>();
     const resourceCache = new Map<string, Promise<ResourceContent | null>>();
+    const fetchedKinds = new Map<string, ResourceKind | undefined>();
+    const responses: Record<string, FetchedResource> = {};
+    const unresolvedImports: UnresolvedImport[] = [];
+    let truncated: LighterceptorLimit | undefined;
+    let bytesLoaded = 0;
+
+    const truncate = (limit: LighterceptorLimit) => {
+      truncated ??= limit;
+    };
+
+    const createContext = (
+      depth: number,
+      documentUrl?: string,
+      importMap?: NormalizedImportMap,
+    ): DiscoveryContext => ({
+      depth,
+      documentUrl,
+      records: [],
+      unresolved: [],
+      queued: [],
+      importMap,
+    });
 
     const recordUrl = (
       url: string,
       source: RequestSource | "unknown",
+      context: DiscoveryContext,
+      discoveredBy: string,
       baseUrl?: string,
+      details: RecordDetails = {},
     ) => {
       const resolved = resolveUrl(baseUrl, url);
       if (!resolved) {
         return;
       }
+      if (
+        !shouldRecord({
+          url: resolved,
+          kind: inferResourceKindFromUrl(resolved),
+          documentUrl: context.documentUrl ?? inputUrl,
+        })
+      ) {
+        return;
+      }
 
-      requests.push({
+      context.records.push({
         url: resolved,
         source,
         timestamp: Date.now(),
+        depth: context.depth,
+        initiator: context.documentUrl ?? DOCUMENT_NODE_ID,
+        discoveredBy,
+        ...(virtualTimeMs !== undefined
+          ? { virtualTime: context.clock?.now() ?? 0 }
+          : {}),
+        ...details,
       });
     };
 
-    const enqueue = (url: string, kind?: ResourceKind) => {
+    const enqueue = (
+      url: string,
+      kind: ResourceKind | undefined,
+      context: DiscoveryContext,
+    ) => {
       if (!recursive || isSkippableUrl(url)) {
         return;
       }
-      if (processed.has(url)) {
+      if (
+        !shouldFollow({
+          url,
+          kind: kind ?? inferResourceKindFromUrl(url),
+          documentUrl: context.documentUrl ?? inputUrl,
+        })
+      ) {
         return;
       }
-      processed.add(url);
-      pending.push({ url, kind });
+      // Scripts resolve their imports with the map of the page that loaded
+      // them; documents bring their own.
+      context.queued.push({
+        url,
+        kind,
+        depth: context.depth + 1,
+        importMap: kind === "js" ? context.importMap : undefined,
+      });
     };
 
-    const recordCssUrls = (cssText: string, baseUrl?: string) => {
-      const { imports, urls } = extractCssDependencies(cssText);
+    const commit = (context: DiscoveryContext) => {
+      for (const record of context.records) {
+        if (requests.length >= maxRequests) {
+          truncate("maxRequests");
+          break;
+        }
+        requests.push(record);
+        emit({ type: "request", request: record });
+      }
+      unresolvedImports.push(...context.unresolved);
 
-      for (const url of imports) {
-        const resolved = resolveUrl(baseUrl, url);
-        if (!resolved) {
+      for (const resource of context.queued) {
+        if (processed.has(resource.url)) {
+          continue;
+        }
+        if (resource.depth > maxDepth) {
+          truncate("maxDepth");
           continue;
         }
-        recordUrl(resolved, "css");
-        enqueue(resolved, "css");
+        processed.add(resource.url);
+        pending.push(resource);
       }
+    };
 
-      for (const url of urls) {
-        const resolved = resolveUrl(baseUrl, url);
+    const recordCssUrls = (
+      cssText: string,
+      context: DiscoveryContext,
+      baseUrl?: string,
+    ) => {
+      for (const reference of extractCssReferences(cssText)) {
+        const resolved = resolveUrl(baseUrl, reference.url);
         if (!resolved) {
           continue;
         }
-        recordUrl(resolved, "css");
+        recordUrl(resolved, "css", context, reference.discoveredBy, undefined, {
+          classification: reference.type,
+        });
+        if (reference.type === "import") {
+          enqueue(resolved, "css", context);
+        }
       }
     };
 
-    const analyzeJs = (jsText: string, baseUrl?: string) => {
-      const { fetches, imports, importScripts, xhrs } =
-        extractJsDependencies(jsText);
+    const resolveImport = (
+      specifier: string,
+      context: DiscoveryContext,
+      baseUrl: string | undefined,
+      discoveredBy: string,
+      position?: UnresolvedImport["position"],
+    ) => {
+      const resolved = resolveModuleSpecifier(
+        specifier,
+        baseUrl,
+        context.importMap,
+      );
+      if (!resolved) {
+        context.unresolved.push({
+          specifier,
+          initiator: context.documentUrl ?? DOCUMENT_NODE_ID,
+          discoveredBy,
+          ...(position ? { position } : {}),
+        });
+      }
+      return resolved;
+    };
 
-      for (const url of imports) {
-        const resolved = resolveUrl(baseUrl, url);
+    const recordSvgReferences = (
+      root: ParentNode,
+      context: DiscoveryContext,
+      baseUrl?: string,
+    ) => {
+      for (const reference of extractSvgReferences(root)) {
+        const resolved = resolveUrl(baseUrl, reference.url);
         if (!resolved) {
           continue;
         }
-        recordUrl(resolved, "resource");
-        enqueue(resolved, inferResourceKindFromUrl(resolved) ?? "js");
+        recordUrl(
+          resolved,
+          reference.type === "image" ? "img" : "resource",
+          context,
+          reference.discoveredBy,
+        );
+        // SVG loaded as an image cannot fetch anything itself, so only
+        // `<use>` targets and scripts are followed.
+        if (reference.type === "use") {
+          enqueue(resolved, "svg", context);
+        } else if (reference.type === "script") {
+          enqueue(resolved, "js", context);
+        }
       }
+    };
 
-      for (const url of importScripts) {
-        const resolved = resolveUrl(baseUrl, url);
-        if (!resolved) {
-          continue;
+    const enqueueEmbeddedSvg = (
+      url: string,
+      context: DiscoveryContext,
+      baseUrl?: string,
+    ) => {
+      const resolved = resolveUrl(baseUrl, url);
+      if (resolved && inferResourceKindFromUrl(resolved) === "svg") {
+        enqueue(resolved, "svg", context);
+      }
+    };
+
+    const analyzeSvg = (
+      svgText: string,
+      context: DiscoveryContext,
+      baseUrl?: string,
+    ) => {
+      let dom: JSDOM;
+      try {
+        dom = new JSDOM(svgText, {
+          contentType: "image/svg+xml",
+          ...(baseUrl ? { url: baseUrl } : {}),
+        });
+      } catch {
+        // Not well-formed XML, which browsers refuse to render as well.
+        return;
+      }
+      const { document } = dom.window;
+      const documentBase = getDocumentBase(document, baseUrl);
+      recordSvgReferences(document, context, documentBase);
+      document.querySelectorAll("style").forEach((style) => {
+        if (style.textContent) {
+          recordCssUrls(style.textContent, context, documentBase);
+        }
+      });
+      document.querySelectorAll("[style]").forEach((element) => {
+        const cssText = element.getAttribute("style");
+        if (cssText) {
+          recordCssUrls(cssText, context, documentBase);
+        }
+      });
+      dom.window.close();
+    };
+
+    const analyzeManifest = (
+      manifestText: string,
+      context: DiscoveryContext,
+      manifestUrl: string,
+    ) => {
+      for (const reference of extractManifestReferences(manifestText)) {
+        recordUrl(
+          reference.url,
+          reference.type === "image" ? "img" : "navigation",
+          context,
+          reference.discoveredBy,
+          manifestUrl,
+        );
+      }
+    };
+
+    const analyzeJs = (
+      jsText: string,
+      context: DiscoveryContext,
+      baseUrl?: string,
+    ) => {
+      const {
+        assets,
+        beacons,
+        dynamicImports,
+        eventSources,
+        fetches,
+        imports,
+        importScripts,
+        webSockets,
+        workers,
+        xhrs,
+      } = extractJsDependencies(jsText);
+
+      const record = (
+        reference: JsReference,
+        source: RequestSource,
+        url = resolveUrl(baseUrl, reference.url),
+      ) => {
+        if (url) {
+          recordUrl(url, source, context, reference.discoveredBy, undefined, {
+            position: { line: reference.line, column: reference.column },
+          });
+        }
+        return url;
+      };
+
+      for (const reference of [...imports, ...dynamicImports]) {
+        const resolved = resolveImport(
+          reference.url,
+          context,
+          baseUrl,
+          reference.discoveredBy,
+          { line: reference.line, column: reference.column },
+        );
+        if (resolved && record(reference, "resource", resolved)) {
+          enqueue(
+            resolved,
+            inferResourceKindFromUrl(resolved) ?? "js",
+            context,
+          );
         }
-        recordUrl(resolved, "resource");
-        enqueue(resolved, "js");
       }
 
-      for (const url of fetches) {
-        const resolved = resolveUrl(baseUrl, url);
-        if (!resolved) {
-          continue;
+      for (const reference of importScripts) {
+        const resolved = record(reference, "resource");
+        if (resolved) {
+          enqueue(resolved, "js", context);
         }
-        recordUrl(resolved, "fetch");
-        enqueue(resolved, inferResourceKindFromUrl(resolved));
       }
 
-      for (const url of xhrs) {
-        const resolved = resolveUrl(baseUrl, url);
-        if (!resolved) {
-          continue;
+      for (const reference of fetches) {
+        const resolved = record(reference, "fetch");
+        if (resolved) {
+          enqueue(resolved, inferResourceKindFromUrl(resolved), context);
+        }
+      }
+
+      for (const reference of xhrs) {
+        const resolved = record(reference, "xhr");
+        if (resolved) {
+          enqueue(resolved, inferResourceKindFromUrl(resolved), context);
+        }
+      }
+
+      for (const reference of beacons) {
+        record(reference, "beacon");
+      }
+
+      for (const reference of webSockets) {
+        const resolved = resolveUrl(baseUrl, reference.url);
+        if (resolved) {
+          record(reference, "websocket", toWebSocketUrl(resolved));
+        }
+      }
+
+      for (const reference of eventSources) {
+        record(reference, "eventsource");
+      }
+
+      for (const reference of workers) {
+        const resolved = record(reference, "worker");
+        if (resolved) {
+          enqueue(resolved, "js", context);
+        }
+      }
+
+      for (const reference of assets) {
+        const resolved = record(reference, "resource");
+        const kind = resolved ? inferResourceKindFromUrl(resolved) : undefined;
+        if (resolved && kind) {
+          enqueue(resolved, kind, context);
         }
-        recordUrl(resolved, "xhr");
-        enqueue(resolved, inferResourceKindFromUrl(resolved));
       }
     };
 
-    const analyzeHtml = async (
+    const openWindow = (
       htmlText: string,
-      baseUrl?: string,
-      captureTitle = false,
+      context: DiscoveryContext,
+      baseUrl: string | undefined,
+      realm: WindowRealmOptions = {},
     ) => {
+      const tracker =
+        settle.strategy === "idle" ? createActivityTracker() : undefined;
+      const clock =
+        virtualTimeMs !== undefined ? createVirtualClock() : undefined;
+      context.clock = clock;
+      let documentWindow: DOMWindow | undefined;
       const dom = createJSDOMWithInterceptor({
         html: htmlText,
         domOptions: {
@@ -159,27 +662,55 @@ export class Lighterceptor {
           runScripts: "dangerously",
           url: baseUrl,
           beforeParse(window) {
+            documentWindow = window;
             window.fetch = () =>
               Promise.resolve({ ok: true }) as unknown as Promise<Response>;
             window.XMLHttpRequest.prototype.send = function send() {};
+            tracker?.install(window);
+            realm.setup?.(window);
           },
         },
+        onResourceLoad: tracker
+          ? (load) => {
+              void tracker.track(load);
+            }
+          : undefined,
+        clock,
+        device,
         interceptor: (url, options) => {
-          const resolved = resolveUrl(options.referrer, url);
+          const resolved = resolveUrl(
+            documentWindow
+              ? getDocumentBase(documentWindow.document, options.referrer)
+              : options.referrer,
+            url,
+          );
           if (!resolved) {
             return Buffer.from("");
           }
 
           const source = options.source ?? "unknown";
-          recordUrl(resolved, source);
+          if (realm.skip?.(resolved, source)) {
+            return Buffer.from("");
+          }
+          recordUrl(
+            resolved,
+            source,
+            context,
+            options.discoveredBy ??
+              describeInterceptedRequest(source, options.element),
+            undefined,
+            pickRecordDetails(options),
+          );
 
           if (recursive) {
             if (source === "fetch" || source === "xhr") {
-              enqueue(resolved, inferResourceKindFromUrl(resolved));
+              enqueue(resolved, inferResourceKindFromUrl(resolved), context);
+            } else if (source === "worker") {
+              enqueue(resolved, "js", context);
             } else if (source === "resource") {
               const kind = inferKindFromElement(options.element);
               if (kind) {
-                enqueue(resolved, kind);
+                enqueue(resolved, kind, context);
               }
             }
           }
@@ -188,11 +719,74 @@ export class Lighterceptor {
         },
       });
 
+      if (workSignal.aborted) {
+        dom.window.close();
+        return undefined;
+      }
+      openWindows.add(dom.window);
+
+      const settleWindow = async () => {
+        if (clock && virtualTimeMs !== undefined) {
+          await clock.advance(virtualTimeMs, workSignal);
+        }
+        if (tracker && settle.strategy === "idle") {
+          await tracker.waitForIdle({
+            idleMs: settle.idleMs ?? DEFAULT_IDLE_MS,
+            maxMs: settle.maxMs ?? DEFAULT_MAX_SETTLE_MS,
+            signal: workSignal,
+          });
+        } else {
+          await waitFor(settleTimeMs, workSignal);
+        }
+      };
+
+      return { dom, settle: settleWindow };
+    };
+
+    const analyzeHtml = async (
+      htmlText: string,
+      context: DiscoveryContext,
+      baseUrl?: string,
+      captureTitle = false,
+    ) => {
+      const opened = openWindow(htmlText, context, baseUrl);
+      if (!opened) {
+        return undefined;
+      }
+      const { dom } = opened;
+
       const { document } = dom.window;
+      // `<base href>` changes what relative URLs in the document resolve to.
+      const documentBase = getDocumentBase(document, baseUrl);
+
+      document
+        .querySelectorAll('script[type="importmap" i]')
+        .forEach((script) => {
+          const importMap = parseImportMap(
+            script.textContent ?? "",
+            documentBase,
+          );
+          if (importMap) {
+            context.importMap = mergeImportMaps(context.importMap, importMap);
+          }
+        });
+
+      // Marks which responsive image candidate the emulated device fetches.
+      const candidateDetails = (element: Element, url: string | null) =>
+        device
+          ? { selected: isSelectedCandidate(element, url ?? "", device) }
+          : {};
 
       document.querySelectorAll("img").forEach((img) => {
         if (img instanceof dom.window.HTMLImageElement && img.src) {
-          recordUrl(img.src, "img");
+          recordUrl(
+            img.src,
+            "img",
+            context,
+            "img[src]",
+            undefined,
+            candidateDetails(img, img.getAttribute("src")),
+          );
         }
       });
 
@@ -205,14 +799,21 @@ export class Lighterceptor {
           return;
         }
         for (const url of parseSrcsetUrls(srcset)) {
-          recordUrl(url, "img", baseUrl);
+          recordUrl(
+            url,
+            "img",
+            context,
+            "img[srcset]",
+            documentBase,
+            candidateDetails(img, url),
+          );
         }
       });
 
       document.querySelectorAll("source[src]").forEach((source) => {
         const src = source.getAttribute("src");
         if (src) {
-          recordUrl(src, "resource", baseUrl);
+          recordUrl(src, "resource", context, "source[src]", documentBase);
         }
       });
 
@@ -220,70 +821,96 @@ export class Lighterceptor {
         const srcset = source.getAttribute("srcset");
         if (srcset) {
           for (const url of parseSrcsetUrls(srcset)) {
-            recordUrl(url, "resource", baseUrl);
+            recordUrl(
+              url,
+              "resource",
+              context,
+              "source[srcset]",
+              documentBase,
+              candidateDetails(source, url),
+            );
           }
         }
       });
 
       document.querySelectorAll("script[src]").forEach((script) => {
         if (script instanceof dom.window.HTMLScriptElement && script.src) {
-          recordUrl(script.src, "resource");
-          enqueue(script.src, "js");
+          recordUrl(script.src, "resource", context, "script[src]");
+          enqueue(script.src, "js", context);
         }
       });
 
+      // jsdom does not run module scripts, so inline ones are read instead.
+      document
+        .querySelectorAll('script[type="module" i]:not([src])')
+        .forEach((script) => {
+          if (script.textContent) {
+            analyzeJs(script.textContent, context, documentBase);
+          }
+        });
+
       document.querySelectorAll("iframe[src]").forEach((iframe) => {
         if (iframe instanceof dom.window.HTMLIFrameElement && iframe.src) {
-          recordUrl(iframe.src, "resource");
-          enqueue(iframe.src, "html");
+          recordUrl(iframe.src, "resource", context, "iframe[src]");
+          enqueue(iframe.src, "html", context);
         }
       });
 
       document.querySelectorAll("video[src], audio[src]").forEach((media) => {
         const src = media.getAttribute("src");
         if (src) {
-          recordUrl(src, "resource", baseUrl);
+          recordUrl(
+            src,
+            "resource",
+            context,
+            `${media.tagName.toLowerCase()}[src]`,
+            documentBase,
+          );
         }
       });
 
       document.querySelectorAll("video[poster]").forEach((video) => {
         const poster = video.getAttribute("poster");
         if (poster) {
-          recordUrl(poster, "resource", baseUrl);
+          recordUrl(poster, "resource", context, "video[poster]", documentBase);
         }
       });
 
       document.querySelectorAll("track[src]").forEach((track) => {
         const src = track.getAttribute("src");
         if (src) {
-          recordUrl(src, "resource", baseUrl);
+          recordUrl(src, "resource", context, "track[src]", documentBase);
         }
       });
 
       document.querySelectorAll("embed[src]").forEach((embed) => {
         const src = embed.getAttribute("src");
         if (src) {
-          recordUrl(src, "resource", baseUrl);
+          recordUrl(src, "resource", context, "embed[src]", documentBase);
+          enqueueEmbeddedSvg(src, context, documentBase);
         }
       });
 
       document.querySelectorAll("object[data]").forEach((object) => {
         const data = object.getAttribute("data");
         if (data) {
-          recordUrl(data, "resource", baseUrl);
+          recordUrl(data, "resource", context, "object[data]", documentBase);
+          enqueueEmbeddedSvg(data, context, documentBase);
         }
       });
 
+      recordSvgReferences(document, context, documentBase);
+
       document.querySelectorAll("[style]").forEach((element) => {
         const cssText = element.getAttribute("style");
         if (cssText) {
-          recordCssUrls(cssText, baseUrl);
+          recordCssUrls(cssText, context, documentBase);
         }
       });
 
       document.querySelectorAll("style").forEach((style) => {
         if (style.textContent) {
-          recordCssUrls(style.textContent, baseUrl);
+          recordCssUrls(style.textContent, context, documentBase);
         }
       });
 
@@ -292,17 +919,27 @@ export class Lighterceptor {
           return;
         }
         const rel = link.getAttribute("rel") ?? "";
+        const isImagePreload = isResponsivePreload(link);
         if (shouldInterceptLinkRel(rel)) {
           const href = link.getAttribute("href") ?? link.href;
           if (href) {
-            const resolvedHref = resolveUrl(baseUrl, href) ?? href;
-            recordUrl(resolvedHref, "resource");
+            const resolvedHref = resolveUrl(documentBase, href) ?? href;
+            recordUrl(
+              resolvedHref,
+              "resource",
+              context,
+              "link[href]",
+              undefined,
+              isImagePreload ? candidateDetails(link, href) : {},
+            );
             if (rel.toLowerCase().includes("stylesheet")) {
-              enqueue(resolvedHref, "css");
+              enqueue(resolvedHref, "css", context);
+            } else if (rel.toLowerCase().includes("manifest")) {
+              enqueue(resolvedHref, "manifest", context);
             } else if (rel.toLowerCase().includes("preload")) {
               const kind = inferResourceKindFromUrl(resolvedHref);
               if (kind) {
-                enqueue(resolvedHref, kind);
+                enqueue(resolvedHref, kind, context);
               }
             }
           }
@@ -311,19 +948,151 @@ export class Lighterceptor {
           const imagesrcset = link.getAttribute("imagesrcset");
           if (imagesrcset) {
             for (const url of parseSrcsetUrls(imagesrcset)) {
-              recordUrl(url, "resource", baseUrl);
+              recordUrl(
+                url,
+                "resource",
+                context,
+                "link[imagesrcset]",
+                documentBase,
+                isImagePreload ? candidateDetails(link, url) : {},
+              );
             }
           }
         }
       });
 
-      await new Promise((resolve) => setTimeout(resolve, settleTimeMs));
+      document.querySelectorAll("a[href], area[href]").forEach((link) => {
+        const href = link.getAttribute("href");
+        if (href && isNavigableHref(href)) {
+          recordUrl(
+            href,
+            "navigation",
+            context,
+            `${link.tagName.toLowerCase()}[href]`,
+            documentBase,
+          );
+        }
+      });
+
+      document.querySelectorAll("form[action]").forEach((form) => {
+        const action = form.getAttribute("action");
+        if (action && isNavigableHref(action)) {
+          recordUrl(
+            action,
+            "navigation",
+            context,
+            "form[action]",
+            documentBase,
+          );
+        }
+      });
+
+      document.querySelectorAll("meta[http-equiv]").forEach((meta) => {
+        if (meta.getAttribute("http-equiv")?.toLowerCase() !== "refresh") {
+          return;
+        }
+        const url = parseMetaRefreshUrl(meta.getAttribute("content") ?? "");
+        if (url) {
+          recordUrl(
+            url,
+            "navigation",
+            context,
+            "meta[http-equiv=refresh]",
+            documentBase,
+          );
+        }
+      });
+
+      let title = captureTitle ? document.title || undefined : undefined;
+      await opened.settle();
+
+      // An abort closes the window while we wait, so only read it if open.
+      if (openWindows.delete(dom.window)) {
+        if (captureTitle) {
+          title = dom.window.document.title || undefined;
+        }
+        dom.window.close();
+      }
+      return title;
+    };
 
-      if (captureTitle) {
-        return dom.window.document.title || undefined;
+    // Runs a fetched script in its own window so URLs it only computes at
+    // runtime are captured too.
+    const executeJs = async (
+      jsText: string,
+      context: DiscoveryContext,
+      scriptUrl: string,
+    ) => {
+      // Requests the static pass already found are not recorded twice.
+      const known = new Set(
+        context.records.map((record) => `${record.source} ${record.url}`),
+      );
+      const recordImport = (
+        specifier: unknown,
+        discoveredBy: string,
+        kind?: ResourceKind,
+      ) => {
+        const resolved =
+          discoveredBy === "import()"
+            ? resolveImport(String(specifier), context, scriptUrl, discoveredBy)
+            : resolveUrl(scriptUrl, String(specifier));
+        if (!resolved || known.has(`resource ${resolved}`)) {
+          return;
+        }
+        known.add(`resource ${resolved}`);
+        recordUrl(resolved, "resource", context, discoveredBy);
+        enqueue(
+          resolved,
+          kind ?? inferResourceKindFromUrl(resolved) ?? "js",
+          context,
+        );
+      };
+
+      const opened = openWindow(SCRIPT_DOCUMENT, context, scriptUrl, {
+        skip: (url, source) => known.has(`${source} ${url}`),
+        setup(window) {
+          Object.defineProperty(window, SCRIPT_IMPORT_FUNCTION, {
+            configurable: true,
+            writable: true,
+            value: (specifier: unknown) => {
+              recordImport(specifier, "import()");
+              return Promise.resolve(createModuleStub());
+            },
+          });
+          Object.defineProperty(window, SCRIPT_BINDING_FUNCTION, {
+            configurable: true,
+            writable: true,
+            value: createModuleStub,
+          });
+          // Worker scripts run here too, so give them importScripts().
+          Object.defineProperty(window, "importScripts", {
+            configurable: true,
+            writable: true,
+            value: (...urls: unknown[]) => {
+              for (const url of urls) {
+                recordImport(url, "importScripts()", "js");
+              }
+            },
+          });
+        },
+      });
+      if (!opened) {
+        return;
       }
 
-      return undefined;
+      const { document } = opened.dom.window;
+      const script = document.createElement("script");
+      script.textContent = toClassicScript(jsText, {
+        url: scriptUrl,
+        importFunction: SCRIPT_IMPORT_FUNCTION,
+        bindingFunction: SCRIPT_BINDING_FUNCTION,
+      });
+      document.head.append(script);
+      await opened.settle();
+
+      if (openWindows.delete(opened.dom.window)) {
+        opened.dom.window.close();
+      }
     };
 
     const loadResource = async (url: string) => {
@@ -331,64 +1100,207 @@ export class Lighterceptor {
       if (existing) {
         return existing;
       }
-      const loader = fetchResourceContent(url);
+      const loader = fetchResourceContent(url, fetcher, workSignal);
       resourceCache.set(url, loader);
       return loader;
     };
 
-    const processPending = async () => {
-      while (pending.length > 0) {
-        const next = pending.shift();
-        if (!next) {
-          continue;
-        }
-        const result = await loadResource(next.url);
-        if (!result) {
-          continue;
-        }
+    const analyzeResource = async (
+      resource: PendingResource,
+    ): Promise<AnalyzedResource | null> => {
+      const result = await loadResource(resource.url);
+      if (!result) {
+        return null;
+      }
+      if (!result.ok) {
+        return { response: result.response, bytes: 0 };
+      }
 
-        const kind =
-          next.kind ??
-          detectResourceKind(next.url, result.contentType, result.text);
-        if (!kind) {
-          continue;
+      const bytes = Buffer.byteLength(result.text);
+      const context = createContext(
+        resource.depth,
+        result.url,
+        resource.importMap,
+      );
+      const kind =
+        resource.kind ??
+        detectResourceKind(resource.url, result.contentType, result.text);
+
+      if (kind === "html") {
+        await analyzeHtml(result.text, context, result.url);
+      } else if (kind === "css") {
+        recordCssUrls(result.text, context, result.url);
+      } else if (kind === "svg") {
+        analyzeSvg(result.text, context, result.url);
+      } else if (kind === "manifest") {
+        analyzeManifest(result.text, context, result.url);
+      } else if (kind === "js") {
+        analyzeJs(result.text, context, result.url);
+        if (executeScripts) {
+          await executeJs(result.text, context, result.url);
         }
+      }
 
-        if (kind === "html") {
-          await analyzeHtml(result.text, next.url);
-          continue;
-        }
+      return { response: result.response, context, bytes, kind };
+    };
 
-        if (kind === "css") {
-          recordCssUrls(result.text, next.url);
-          continue;
+    // Resources are analyzed concurrently but committed strictly in queue
+    // order, so the recorded requests match a sequential walk.
+    const processPending = async () => {
+      const tasks: Array<Promise<AnalyzedResource | null> | undefined> = [];
+      const running = new Set<Promise<void>>();
+      const hostSlots = new Map<string, number>();
+      let committed = 0;
+
+      const schedule = () => {
+        const limit = Math.min(pending.length, maxResources);
+        for (let index = committed; index < limit; index += 1) {
+          if (running.size >= concurrency) {
+            return;
+          }
+          if (tasks[index]) {
+            continue;
+          }
+          const host = getHost(pending[index].url);
+          const used = hostSlots.get(host) ?? 0;
+          if (used >= perHostConcurrency) {
+            continue;
+          }
+
+          hostSlots.set(host, used + 1);
+          const task = analyzeResource(pending[index]);
+          tasks[index] = task;
+          const settled = task.then(
+            () => undefined,
+            () => undefined,
+          );
+          running.add(settled);
+          void settled.then(() => {
+            running.delete(settled);
+            hostSlots.set(host, (hostSlots.get(host) ?? 1) - 1);
+          });
         }
+      };
+
+      try {
+        while (committed < pending.length) {
+          if (signal.aborted) {
+            break;
+          }
+          if (requests.length >= maxRequests) {
+            truncate("maxRequests");
+            break;
+          }
+          if (committed >= maxResources) {
+            truncate("maxResources");
+            break;
+          }
+          if (bytesLoaded >= maxBytes) {
+            truncate("maxBytes");
+            break;
+          }
 
-        analyzeJs(result.text, next.url);
+          schedule();
+          const task = tasks[committed];
+          if (!task) {
+            await Promise.race(running);
+            continue;
+          }
+
+          const analyzed = await task;
+          committed += 1;
+          if (!analyzed) {
+            continue;
+          }
+          const resource = pending[committed - 1];
+          responses[resource.url] = analyzed.response;
+          emit({
+            type: "resource",
+            url: resource.url,
+            depth: resource.depth,
+            kind: analyzed.kind,
+            response: analyzed.response,
+          });
+          if (!analyzed.context) {
+            continue;
+          }
+
+          bytesLoaded += analyzed.bytes;
+          if (bytesLoaded > maxBytes) {
+            truncate("maxBytes");
+            break;
+          }
+          fetchedKinds.set(resource.url, analyzed.kind);
+          commit(analyzed.context);
+          if (analyzed.kind === "html") {
+            emit({
+              type: "document",
+              url: analyzed.response.url || resource.url,
+              depth: resource.depth,
+            });
+          }
+        }
+      } finally {
+        // Resources still loading after a limit or an abort would only be
+        // discarded, so stop them instead of waiting for them to finish.
+        if (committed < pending.length) {
+          stopWork();
+        }
+        await Promise.all(running);
       }
     };
 
     const inputKind = detectInputKind(this.input);
+    const inputContext = createContext(
+      0,
+      undefined,
+      this.options.importMap
+        ? normalizeImportMap(this.options.importMap, inputUrl)
+        : undefined,
+    );
 
     let title: string | undefined;
-    if (inputKind === "html") {
-      title = await analyzeHtml(this.input, undefined, true);
-    } else if (inputKind === "css") {
-      recordCssUrls(this.input);
-    } else {
-      analyzeJs(this.input);
-    }
+    try {
+      if (inputKind === "html") {
+        title = await analyzeHtml(this.input, inputContext, inputUrl, true);
+      } else if (inputKind === "css") {
+        recordCssUrls(this.input, inputContext, inputUrl);
+      } else if (inputKind === "svg") {
+        analyzeSvg(this.input, inputContext, inputUrl);
+      } else {
+        analyzeJs(this.input, inputContext, inputUrl);
+      }
+      commit(inputContext);
+      if (inputKind === "html") {
+        emit({ type: "document", url: inputUrl, depth: 0, title });
+      }
 
-    await processPending();
+      await processPending();
+    } finally {
+      for (const cleanup of cleanups) {
+        cleanup();
+      }
+    }
 
-    return {
+    const result: LighterceptorResult = {
       title,
       capturedAt,
       requests,
+      graph: buildRequestGraph(requests, fetchedKinds),
+      responses,
+      ...(unresolvedImports.length > 0 ? { unresolvedImports } : {}),
+      truncated,
+      aborted: signal.aborted,
     };
+    emit({ type: "finished", result });
+    return result;
   }
 }
 
+function getDocumentBase(document: Document, fallback?: string) {
+  return document.baseURI === "about:blank" ? fallback : document.baseURI;
+}
+
 function resolveUrl(baseUrl: string | undefined, url: string) {
   if (!url) {
     return undefined;
@@ -408,6 +1320,14 @@ function resolveUrl(baseUrl: string | undefined, url: string) {
   }
 }
 
+function getHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
+
 function isSkippableUrl(url: string) {
   const lowered = url.toLowerCase();
   return (
@@ -419,27 +1339,81 @@ function isSkippableUrl(url: string) {
 
 async function fetchResourceContent(
   url: string,
+  fetcher: ResourceFetcher,
+  signal: AbortSignal,
 ): Promise<ResourceContent | null> {
-  if (typeof fetch !== "function") {
+  if (signal.aborted) {
     return null;
   }
 
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
+    const response = await untilAborted(
+      Promise.resolve(fetcher(url, { signal })),
+      signal,
+    );
+    if (!response) {
       return null;
     }
-    const text = await response.text();
     return {
-      text,
-      contentType: response.headers.get("content-type") ?? undefined,
+      text: response.body,
+      contentType: getHeader(response.headers, "content-type"),
+      url: response.url || url,
+      ok: response.status >= 200 && response.status < 300,
+      response,
     };
   } catch {
     return null;
   }
 }
 
-function inferResourceKindFromUrl(url: string) {
+function waitFor(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal) {
+  return new Promise<T | null>((resolve, reject) => {
+    if (signal.aborted) {
+      resolve(null);
+      return;
+    }
+    const onAbort = () => resolve(null);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+function getHeader(headers: Record<string, string>, name: string) {
+  const target = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === target) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function inferResourceKindFromUrl(url: string): ResourceKind | undefined {
   const cleanUrl = url.split("?")[0].split("#")[0];
   const extension = cleanUrl.split(".").pop()?.toLowerCase();
   if (!extension) {
@@ -454,6 +1428,12 @@ function inferResourceKindFromUrl(url: string) {
   if (extension === "js" || extension === "mjs" || extension === "cjs") {
     return "js";
   }
+  if (extension === "svg") {
+    return "svg";
+  }
+  if (extension === "webmanifest") {
+    return "manifest";
+  }
   return undefined;
 }
 
@@ -472,6 +1452,12 @@ function detectResourceKind(
   if (normalized.includes("javascript")) {
     return "js";
   }
+  if (normalized.includes("image/svg+xml")) {
+    return "svg";
+  }
+  if (normalized.includes("manifest+json")) {
+    return "manifest";
+  }
 
   const inferred = inferResourceKindFromUrl(url);
   if (inferred) {
@@ -479,6 +1465,9 @@ function detectResourceKind(
   }
 
   const trimmed = text.trimStart();
+  if (looksLikeSvgDocument(trimmed)) {
+    return "svg";
+  }
   if (trimmed.startsWith("<!doctype") || trimmed.startsWith("<html")) {
     return "html";
   }
@@ -496,6 +1485,9 @@ function detectResourceKind(
 
 function detectInputKind(input: string): ResourceKind {
   const trimmed = input.trimStart();
+  if (looksLikeSvgDocument(trimmed)) {
+    return "svg";
+  }
   if (trimmed.startsWith("<")) {
     return "html";
   }
@@ -505,6 +1497,31 @@ function detectInputKind(input: string): ResourceKind {
   return "js";
 }
 
+// HTML pages often start with an inline icon, so without an XML prolog only a
+// lone `<svg>` root in the SVG namespace is taken for an SVG document.
+function looksLikeSvgDocument(text: string) {
+  if (text.startsWith("<?xml")) {
+    return /<svg[\s>]/.test(text);
+  }
+  const root = /^<svg\b[^>]*>/.exec(text);
+  const namespace = root?.[0].match(/\sxmlns\s*=\s*(["'])(.*?)\1/)?.[2];
+  if (!root || namespace !== SVG_NAMESPACE) {
+    return false;
+  }
+  let depth = 0;
+  for (const tag of text.matchAll(/<(\/?)svg\b[^>]*>/g)) {
+    if (tag[1]) {
+      depth -= 1;
+    } else if (!tag[0].endsWith("/>")) {
+      depth += 1;
+    }
+    if (depth === 0) {
+      return text.slice(tag.index + tag[0].length).trim() === "";
+    }
+  }
+  return false;
+}
+
 function looksLikeJavaScript(text: string) {
   return (
     /\b(import|export)\b/.test(text) ||
@@ -531,6 +1548,9 @@ function inferKindFromElement(element: unknown): ResourceKind | undefined {
   if (tagName === "iframe") {
     return "html";
   }
+  if (tagName === "use") {
+    return "svg";
+  }
   if (tagName === "link" && "getAttribute" in element) {
     const rel = String(
       (element as Element).getAttribute("rel") ?? "",
@@ -542,6 +1562,9 @@ function inferKindFromElement(element: unknown): ResourceKind | undefined {
     if (rel.includes("stylesheet")) {
       return "css";
     }
+    if (rel.includes("manifest")) {
+      return "manifest";
+    }
     if (rel.includes("preload") || rel.includes("prefetch")) {
       if (asValue === "style") {
         return "css";
@@ -555,77 +1578,117 @@ function inferKindFromElement(element: unknown): ResourceKind | undefined {
   return undefined;
 }
 
-function extractCssDependencies(cssText: string): CssDependencies {
-  const imports: string[] = [];
-  const urls: string[] = [];
-  const urlPattern = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
-  const importPattern = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s]+)\1\s*\)?/gi;
-  let match: RegExpExecArray | null;
-
-  while ((match = urlPattern.exec(cssText)) !== null) {
-    const url = match[2].trim();
-    if (url.length > 0) {
-      urls.push(url);
-    }
-  }
+// Stands in for modules executed scripts import: it can be called,
+// constructed and read from at any depth, so code using an import keeps
+// running. It is not thenable, so awaiting it or `import()` resolves to it.
+function createModuleStub(): unknown {
+  return new Proxy(function stub() {}, {
+    get(_target, property) {
+      if (property === Symbol.toPrimitive) {
+        return () => "";
+      }
+      if (property === "then" || typeof property === "symbol") {
+        return undefined;
+      }
+      return createModuleStub();
+    },
+    apply: () => createModuleStub(),
+    construct: () => createModuleStub() as object,
+  });
+}
 
-  while ((match = importPattern.exec(cssText)) !== null) {
-    const url = match[2].trim();
-    if (url.length > 0) {
-      imports.push(url);
-    }
+function pickRecordDetails(options: FetchOptions): RecordDetails {
+  const details: RecordDetails = {};
+  if (options.method !== undefined) {
+    details.method = options.method;
   }
-
-  return { imports, urls };
+  if (options.headers !== undefined) {
+    details.headers = options.headers;
+  }
+  if (options.credentials !== undefined) {
+    details.credentials = options.credentials;
+  }
+  if (options.body !== undefined) {
+    details.body = options.body;
+  }
+  if (options.classification !== undefined) {
+    details.classification = options.classification;
+  }
+  if (options.selected !== undefined) {
+    details.selected = options.selected;
+  }
+  return details;
 }
 
-function extractJsDependencies(jsText: string): JsDependencies {
-  const imports = new Set<string>();
-  const importScripts = new Set<string>();
-  const fetches = new Set<string>();
-  const xhrs = new Set<string>();
-
-  const importPattern = /\bimport\s+(?:[^'"]+from\s+)?['"]([^'"]+)['"]/g;
-  const dynamicImportPattern = /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g;
-  const importScriptsPattern = /\bimportScripts\(\s*['"]([^'"]+)['"]\s*\)/g;
-  const fetchPattern = /\bfetch\(\s*['"]([^'"]+)['"]/g;
-  const xhrPattern = /\.open\(\s*['"][^'"]+['"]\s*,\s*['"]([^'"]+)['"]/g;
-
-  let match: RegExpExecArray | null;
-
-  while ((match = importPattern.exec(jsText)) !== null) {
-    imports.add(match[1]);
+function describeInterceptedRequest(
+  source: RequestSource | "unknown",
+  element: unknown,
+) {
+  if (source === "fetch") {
+    return "fetch()";
   }
-
-  while ((match = dynamicImportPattern.exec(jsText)) !== null) {
-    imports.add(match[1]);
+  if (source === "xhr") {
+    return "XMLHttpRequest.open()";
   }
-
-  while ((match = importScriptsPattern.exec(jsText)) !== null) {
-    importScripts.add(match[1]);
+  if (source === "beacon") {
+    return "navigator.sendBeacon()";
   }
-
-  while ((match = fetchPattern.exec(jsText)) !== null) {
-    fetches.add(match[1]);
+  if (source === "websocket") {
+    return "new WebSocket()";
+  }
+  if (source === "eventsource") {
+    return "new EventSource()";
+  }
+  if (source === "css") {
+    return "url()";
   }
 
-  while ((match = xhrPattern.exec(jsText)) !== null) {
-    xhrs.add(match[1]);
+  const tagName =
+    element &&
+    typeof element === "object" &&
+    "tagName" in element &&
+    typeof element.tagName === "string"
+      ? element.tagName.toLowerCase()
+      : undefined;
+  if (!tagName) {
+    return source;
+  }
+  if (tagName === "link") {
+    return "link[href]";
   }
+  if (tagName === "object") {
+    return "object[data]";
+  }
+  return `${tagName}[src]`;
+}
 
-  return {
-    imports: [...imports],
-    importScripts: [...importScripts],
-    fetches: [...fetches],
-    xhrs: [...xhrs],
-  };
+function isNavigableHref(href: string) {
+  const trimmed = href.trim();
+  return (
+    trimmed.length > 0 &&
+    !trimmed.startsWith("#") &&
+    !trimmed.toLowerCase().startsWith("javascript:")
+  );
+}
+
+function parseMetaRefreshUrl(content: string) {
+  const match = /^\s*[\d.]*\s*[;,]\s*(?:url\s*=\s*)?(.*)$/i.exec(content);
+  const url = match?.[1].trim().replace(/^(['"])(.*)\1$/, "$2");
+  return url || undefined;
+}
+
+function toWebSocketUrl(url: string) {
+  if (url.startsWith("http:")) {
+    return `ws:${url.slice(5)}`;
+  }
+  if (url.startsWith("https:")) {
+    return `wss:${url.slice(6)}`;
+  }
+  return url;
 }
 
 function parseSrcsetUrls(value: string) {
-  return value
-    .split(",")
-    .map((candidate) => candidate.trim().split(/\s+/)[0])
-    .filter((url) => url.length > 0);
+  return parseSrcset(value).map((candidate) => candidate.url);
 }
 
 function shouldInterceptLinkRel(rel: string) {
@@ -634,6 +1697,7 @@ function shouldInterceptLinkRel(rel: string) {
     normalized.includes("preload") ||
     normalized.includes("prefetch") ||
     normalized.includes("stylesheet") ||
-    normalized.includes("icon")
+    normalized.includes("icon") ||
+    normalized.includes("manifest")
   );
 }
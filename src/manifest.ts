@@ -0,0 +1,55 @@
+// Icons and screenshots are images; `start_url` is where an installed app
+// opens, so it counts as a navigation.
+export type ManifestReference = {
+  url: string;
+  type: "image" | "navigation";
+  discoveredBy: string;
+};
+
+export function extractManifestReferences(
+  manifestText: string,
+): ManifestReference[] {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestText);
+  } catch {
+    return [];
+  }
+  if (!isRecord(manifest)) {
+    return [];
+  }
+
+  const references: ManifestReference[] = [];
+  const addImages = (images: unknown, discoveredBy: string) => {
+    if (!Array.isArray(images)) {
+      return;
+    }
+    for (const image of images) {
+      if (isRecord(image) && typeof image.src === "string" && image.src) {
+        references.push({ url: image.src, type: "image", discoveredBy });
+      }
+    }
+  };
+
+  addImages(manifest.icons, "manifest.icons");
+  addImages(manifest.screenshots, "manifest.screenshots");
+  if (Array.isArray(manifest.shortcuts)) {
+    for (const shortcut of manifest.shortcuts) {
+      if (isRecord(shortcut)) {
+        addImages(shortcut.icons, "manifest.shortcuts.icons");
+      }
+    }
+  }
+  if (typeof manifest.start_url === "string" && manifest.start_url) {
+    references.push({
+      url: manifest.start_url,
+      type: "navigation",
+      discoveredBy: "manifest.start_url",
+    });
+  }
+  return references;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -4,14 +4,19 @@ import {
   type FetchOptions as JSDOMFetchOptions,
 } from "jsdom";
 
-import type { FetchOptions, RequestInterceptor } from "./types";
+import type { FetchOptions, RequestInterceptor } from "./types.js";
 
 export class InterceptingResourceLoader extends ResourceLoader {
   private interceptor: RequestInterceptor;
+  private onLoad?: (load: Promise<Buffer>) => void;
 
-  constructor(interceptor: RequestInterceptor) {
+  constructor(
+    interceptor: RequestInterceptor,
+    onLoad?: (load: Promise<Buffer>) => void,
+  ) {
     super();
     this.interceptor = interceptor;
+    this.onLoad = onLoad;
   }
 
   fetch(url: string, options: FetchOptions): AbortablePromise<Buffer> | null {
@@ -42,6 +47,8 @@ export class InterceptingResourceLoader extends ResourceLoader {
       return Buffer.from("");
     });
 
+    this.onLoad?.(promise);
+
     const abortable = promise as AbortablePromise<Buffer>;
     abortable.abort = () => {
       if (fallback) {
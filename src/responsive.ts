@@ -0,0 +1,716 @@
+import type { DOMWindow } from "jsdom";
+
+// The emulated screen. `width` and `height` are the viewport in CSS pixels;
+// `mediaFeatures` overrides or adds media feature values such as
+// `{ "prefers-color-scheme": "dark", pointer: "coarse" }`.
+export type DeviceOptions = {
+  width?: number;
+  height?: number;
+  devicePixelRatio?: number;
+  mediaFeatures?: Record<string, string | number>;
+};
+
+export type SrcsetCandidate = {
+  url: string;
+  width?: number;
+  density?: number;
+};
+
+// The element whose attribute holds the URL a browser would fetch, and that
+// URL as written in the attribute.
+export type ImageSourceSelection = {
+  element: Element;
+  url: string;
+};
+
+type ResolvedDevice = {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+  mediaFeatures: Record<string, string | number>;
+};
+
+// jsdom's own window size, and what a desktop browser reports for the rest.
+const DEFAULT_WIDTH = 1024;
+const DEFAULT_HEIGHT = 768;
+const DEFAULT_MEDIA_FEATURES: Record<string, string | number> = {
+  color: 8,
+  "color-index": 0,
+  monochrome: 0,
+  grid: 0,
+  scan: "progressive",
+  hover: "hover",
+  "any-hover": "hover",
+  pointer: "fine",
+  "any-pointer": "fine",
+  "prefers-color-scheme": "light",
+  "prefers-contrast": "no-preference",
+  "prefers-reduced-motion": "no-preference",
+  "prefers-reduced-transparency": "no-preference",
+  "forced-colors": "none",
+  "inverted-colors": "none",
+  "display-mode": "browser",
+  scripting: "enabled",
+  update: "fast",
+};
+const NUMERIC_FEATURES = new Set([
+  "width",
+  "height",
+  "device-width",
+  "device-height",
+  "aspect-ratio",
+  "device-aspect-ratio",
+  "resolution",
+  "-webkit-device-pixel-ratio",
+  "color",
+  "color-index",
+  "monochrome",
+  "grid",
+]);
+const SUPPORTED_IMAGE_TYPES = new Set([
+  "image/apng",
+  "image/avif",
+  "image/bmp",
+  "image/gif",
+  "image/jpeg",
+  "image/png",
+  "image/svg+xml",
+  "image/vnd.microsoft.icon",
+  "image/webp",
+  "image/x-icon",
+]);
+const FONT_SIZE_PX = 16;
+
+// Evaluates a media query list such as `screen and (min-width: 40em), print`
+// against the device. Unknown features and media types never match.
+export function matchesMediaQuery(query: string, device: DeviceOptions = {}) {
+  const queries = splitTopLevel(query.toLowerCase(), ",");
+  if (queries.length === 1 && queries[0].trim() === "") {
+    return true;
+  }
+  const resolved = resolveDevice(device);
+  return queries.some((item) => evaluateQuery(tokenize(item), resolved));
+}
+
+// Parses a `srcset` attribute the way the HTML spec does, so URLs containing
+// commas and candidates without descriptors survive.
+export function parseSrcset(value: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  let index = 0;
+  while (index < value.length) {
+    while (index < value.length && /[\s,]/.test(value[index])) {
+      index += 1;
+    }
+    if (index >= value.length) {
+      break;
+    }
+    let end = index;
+    while (end < value.length && !/\s/.test(value[end])) {
+      end += 1;
+    }
+    let url = value.slice(index, end);
+    index = end;
+    const descriptors: string[] = [];
+    if (url.endsWith(",")) {
+      url = url.replace(/,+$/, "");
+    } else {
+      let descriptor = "";
+      let inParens = false;
+      while (index < value.length) {
+        const char = value[index];
+        index += 1;
+        if (char === "(") {
+          inParens = true;
+        } else if (char === ")") {
+          inParens = false;
+        } else if (char === "," && !inParens) {
+          break;
+        } else if (/\s/.test(char) && !inParens) {
+          if (descriptor) {
+            descriptors.push(descriptor);
+          }
+          descriptor = "";
+          continue;
+        }
+        descriptor += char;
+      }
+      if (descriptor) {
+        descriptors.push(descriptor);
+      }
+    }
+    const candidate = toCandidate(url, descriptors);
+    if (candidate) {
+      candidates.push(candidate);
+    }
+  }
+  return candidates;
+}
+
+// Picks the image an `<img>` would load: the first `<source>` of its
+// `<picture>` whose `media` and `type` match, otherwise the image's own
+// `srcset` and `src`.
+export function selectImageSource(
+  image: Element,
+  device: DeviceOptions = {},
+): ImageSourceSelection | undefined {
+  const picture = image.parentElement;
+  if (picture?.localName === "picture") {
+    for (const source of Array.from(picture.children)) {
+      if (source === image) {
+        break;
+      }
+      if (source.localName !== "source") {
+        continue;
+      }
+      const media = source.getAttribute("media");
+      const type = source.getAttribute("type");
+      if (
+        (media !== null && !matchesMediaQuery(media, device)) ||
+        (type !== null && !isSupportedImageType(type))
+      ) {
+        continue;
+      }
+      const url = selectCandidate(
+        parseSrcset(source.getAttribute("srcset") ?? ""),
+        source.getAttribute("sizes"),
+        device,
+      );
+      if (url !== undefined) {
+        return { element: source, url };
+      }
+    }
+  }
+  const url = selectCandidate(
+    parseSrcset(image.getAttribute("srcset") ?? ""),
+    image.getAttribute("sizes"),
+    device,
+    image.getAttribute("src"),
+  );
+  return url !== undefined ? { element: image, url } : undefined;
+}
+
+// Picks the image a `<link rel="preload" as="image">` would load. Preloads
+// whose `media` does not match are not fetched at all.
+export function selectPreloadSource(
+  link: Element,
+  device: DeviceOptions = {},
+): ImageSourceSelection | undefined {
+  const media = link.getAttribute("media");
+  if (media !== null && !matchesMediaQuery(media, device)) {
+    return undefined;
+  }
+  const url = selectCandidate(
+    parseSrcset(link.getAttribute("imagesrcset") ?? ""),
+    link.getAttribute("imagesizes"),
+    device,
+    link.getAttribute("href"),
+  );
+  return url !== undefined ? { element: link, url } : undefined;
+}
+
+// `imagesrcset` and `imagesizes` only apply to `<link rel="preload"
+// as="image">`.
+export function isResponsivePreload(link: Element) {
+  return (
+    link.localName === "link" &&
+    /(^|\s)preload(\s|$)/i.test(link.getAttribute("rel") ?? "") &&
+    link.getAttribute("as")?.toLowerCase() === "image"
+  );
+}
+
+// Whether `url`, found in one of `element`'s responsive image attributes, is
+// the candidate the browser would fetch.
+export function isSelectedCandidate(
+  element: Element,
+  url: string,
+  device: DeviceOptions = {},
+) {
+  let selection: ImageSourceSelection | undefined;
+  if (element.localName === "img") {
+    selection = selectImageSource(element, device);
+  } else if (element.localName === "link") {
+    selection = selectPreloadSource(element, device);
+  } else if (element.localName === "source") {
+    const image = Array.from(element.parentElement?.children ?? []).find(
+      (child) => child.localName === "img",
+    );
+    selection = image ? selectImageSource(image, device) : undefined;
+  }
+  return selection?.element === element && selection.url === url.trim();
+}
+
+// Gives the window the device's size, pixel ratio and a `matchMedia` that
+// evaluates queries against it.
+export function installDevice(window: DOMWindow, device: DeviceOptions) {
+  const resolved = resolveDevice(device);
+  const define = (target: object, name: string, value: unknown) => {
+    Object.defineProperty(target, name, {
+      configurable: true,
+      writable: true,
+      value,
+    });
+  };
+
+  define(window, "innerWidth", resolved.width);
+  define(window, "innerHeight", resolved.height);
+  define(window, "outerWidth", resolved.width);
+  define(window, "outerHeight", resolved.height);
+  define(window, "devicePixelRatio", resolved.devicePixelRatio);
+  for (const [name, value] of [
+    ["width", resolved.width],
+    ["height", resolved.height],
+    ["availWidth", resolved.width],
+    ["availHeight", resolved.height],
+  ] as const) {
+    define(window.screen, name, value);
+  }
+  define(window, "matchMedia", (query: string) => ({
+    media: String(query).trim(),
+    matches: matchesMediaQuery(String(query), device),
+    onchange: null,
+    addListener() {},
+    removeListener() {},
+    addEventListener() {},
+    removeEventListener() {},
+    dispatchEvent: () => false,
+  }));
+}
+
+// Browsers pick the smallest candidate that is at least as dense as the
+// screen, or the densest one when none is.
+function selectCandidate(
+  candidates: SrcsetCandidate[],
+  sizes: string | null,
+  device: DeviceOptions,
+  fallbackUrl?: string | null,
+) {
+  const resolved = resolveDevice(device);
+  const hasWidths = candidates.some((item) => item.width !== undefined);
+  const sourceSize = hasWidths ? evaluateSizes(sizes, resolved) : 0;
+  const densities: Array<{ url: string; density: number }> = [];
+  for (const candidate of candidates) {
+    const density =
+      candidate.width !== undefined
+        ? candidate.width / sourceSize
+        : (candidate.density ?? 1);
+    if (!densities.some((item) => item.density === density)) {
+      densities.push({ url: candidate.url, density });
+    }
+  }
+  const src = fallbackUrl?.trim();
+  if (src && !hasWidths && !densities.some((item) => item.density === 1)) {
+    densities.push({ url: src, density: 1 });
+  }
+  if (densities.length === 0) {
+    return undefined;
+  }
+  densities.sort((a, b) => a.density - b.density);
+  return (
+    densities.find((item) => item.density >= resolved.devicePixelRatio) ??
+    densities[densities.length - 1]
+  ).url;
+}
+
+// Returns the width in CSS pixels of the first `sizes` entry whose media
+// condition matches. `auto` and a missing attribute mean the full viewport.
+function evaluateSizes(sizes: string | null, device: ResolvedDevice) {
+  for (const entry of splitTopLevel(sizes?.toLowerCase() ?? "", ",")) {
+    const tokens = tokenize(entry);
+    const last = tokens.pop();
+    if (!last) {
+      continue;
+    }
+    if (tokens.length > 0 && !evaluateCondition(tokens, device)) {
+      continue;
+    }
+    const size = last === "auto" ? device.width : parseLength(last, device);
+    if (size !== undefined && size >= 0) {
+      return size;
+    }
+  }
+  return device.width;
+}
+
+function toCandidate(
+  url: string,
+  descriptors: string[],
+): SrcsetCandidate | undefined {
+  if (!url) {
+    return undefined;
+  }
+  const candidate: SrcsetCandidate = { url };
+  for (const descriptor of descriptors) {
+    const value = Number(descriptor.slice(0, -1));
+    const unit = descriptor.slice(-1).toLowerCase();
+    if (unit === "w" && candidate.width === undefined && value > 0) {
+      candidate.width = value;
+    } else if (unit === "x" && candidate.density === undefined && value >= 0) {
+      candidate.density = value;
+    } else if (unit !== "h") {
+      return undefined;
+    }
+  }
+  if (candidate.width !== undefined && candidate.density !== undefined) {
+    return undefined;
+  }
+  return candidate;
+}
+
+function isSupportedImageType(type: string) {
+  return SUPPORTED_IMAGE_TYPES.has(type.split(";")[0].trim().toLowerCase());
+}
+
+function resolveDevice(device: DeviceOptions): ResolvedDevice {
+  return {
+    width: device.width ?? DEFAULT_WIDTH,
+    height: device.height ?? DEFAULT_HEIGHT,
+    devicePixelRatio: device.devicePixelRatio ?? 1,
+    mediaFeatures: { ...DEFAULT_MEDIA_FEATURES, ...device.mediaFeatures },
+  };
+}
+
+// Splits media queries into words and parenthesized groups; groups keep
+// their parentheses so nested conditions can be told apart from features.
+function tokenize(text: string) {
+  const tokens: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === "(") {
+      let depth = 0;
+      let end = index;
+      for (; end < text.length; end += 1) {
+        if (text[end] === "(") {
+          depth += 1;
+        } else if (text[end] === ")") {
+          depth -= 1;
+          if (depth === 0) {
+            break;
+          }
+        }
+      }
+      tokens.push(text.slice(index, end + 1));
+      index = end + 1;
+    } else {
+      let end = index;
+      while (end < text.length && !/[\s(]/.test(text[end])) {
+        end += 1;
+      }
+      // Keeps functions such as `calc(...)` together with their arguments.
+      if (text[end] === "(") {
+        const [group] = tokenize(text.slice(end));
+        tokens.push(text.slice(index, end) + group);
+        index = end + group.length;
+      } else {
+        tokens.push(text.slice(index, end));
+        index = end;
+      }
+    }
+  }
+  return tokens;
+}
+
+function evaluateQuery(tokens: string[], device: ResolvedDevice): boolean {
+  if (tokens.length === 0) {
+    return false;
+  }
+  if (
+    tokens[0].startsWith("(") ||
+    (tokens[0] === "not" && isGroup(tokens[1]))
+  ) {
+    return evaluateCondition(tokens, device);
+  }
+  let negated = false;
+  let rest = tokens;
+  if (rest[0] === "not" || rest[0] === "only") {
+    negated = rest[0] === "not";
+    rest = rest.slice(1);
+  }
+  const [type, ...conditions] = rest;
+  if (conditions.length > 0 && conditions.shift() !== "and") {
+    return false;
+  }
+  const matches =
+    (type === "all" || type === "screen") &&
+    (conditions.length === 0 || evaluateCondition(conditions, device));
+  return negated ? !matches : matches;
+}
+
+function evaluateCondition(tokens: string[], device: ResolvedDevice): boolean {
+  if (tokens[0] === "not") {
+    return tokens.length === 2 && !evaluateInParens(tokens[1], device);
+  }
+  const combinator = tokens[1];
+  if (combinator !== undefined && combinator !== "and" && combinator !== "or") {
+    return false;
+  }
+  const results: boolean[] = [];
+  for (let index = 0; index < tokens.length; index += 2) {
+    if (index > 0 && tokens[index - 1] !== combinator) {
+      return false;
+    }
+    results.push(evaluateInParens(tokens[index], device));
+  }
+  return combinator === "or" ? results.some(Boolean) : results.every(Boolean);
+}
+
+function evaluateInParens(group: string, device: ResolvedDevice) {
+  if (!isGroup(group)) {
+    return false;
+  }
+  const inner = group.slice(1, -1).trim();
+  const tokens = tokenize(inner);
+  if (tokens[0] === "not" || isGroup(tokens[0])) {
+    return evaluateCondition(tokens, device);
+  }
+  return evaluateFeature(inner, device);
+}
+
+function evaluateFeature(feature: string, device: ResolvedDevice) {
+  const colon = feature.indexOf(":");
+  if (colon !== -1) {
+    let name = normalizeFeatureName(feature.slice(0, colon).trim());
+    const value = feature.slice(colon + 1).trim();
+    let comparison: "=" | ">=" | "<=" = "=";
+    if (/^(min|max)-/.test(name)) {
+      comparison = name.startsWith("min-") ? ">=" : "<=";
+      name = name.slice(4);
+    }
+    return compareFeature(name, comparison, value, device);
+  }
+
+  const parts = feature.split(/(<=|>=|<|>|=)/).map((part) => part.trim());
+  if (parts.length === 1) {
+    const value = getFeatureValue(normalizeFeatureName(feature), device);
+    return (
+      value !== undefined &&
+      value !== 0 &&
+      value !== "none" &&
+      value !== "no-preference"
+    );
+  }
+  if (parts.length === 3) {
+    const [left, operator, right] = parts;
+    return isFeatureName(left)
+      ? compareFeature(normalizeFeatureName(left), operator, right, device)
+      : compareFeature(
+          normalizeFeatureName(right),
+          flipOperator(operator),
+          left,
+          device,
+        );
+  }
+  if (parts.length === 5) {
+    const [low, lowOperator, name, highOperator, high] = parts;
+    const normalized = normalizeFeatureName(name);
+    return (
+      compareFeature(normalized, flipOperator(lowOperator), low, device) &&
+      compareFeature(normalized, highOperator, high, device)
+    );
+  }
+  return false;
+}
+
+function compareFeature(
+  name: string,
+  operator: string,
+  text: string,
+  device: ResolvedDevice,
+) {
+  const actual = getFeatureValue(name, device);
+  if (actual === undefined) {
+    return false;
+  }
+  if (!NUMERIC_FEATURES.has(name)) {
+    return operator === "=" && String(actual) === text;
+  }
+  const expected = parseFeatureValue(name, text, device);
+  if (expected === undefined || typeof actual !== "number") {
+    return false;
+  }
+  switch (operator) {
+    case "=":
+      return actual === expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    default:
+      return false;
+  }
+}
+
+function getFeatureValue(name: string, device: ResolvedDevice) {
+  switch (name) {
+    case "width":
+    case "device-width":
+      return device.width;
+    case "height":
+    case "device-height":
+      return device.height;
+    case "aspect-ratio":
+    case "device-aspect-ratio":
+      return device.width / device.height;
+    case "orientation":
+      return device.height >= device.width ? "portrait" : "landscape";
+    case "resolution":
+    case "-webkit-device-pixel-ratio":
+      return device.devicePixelRatio;
+    default:
+      return device.mediaFeatures[name];
+  }
+}
+
+function parseFeatureValue(name: string, text: string, device: ResolvedDevice) {
+  if (name === "aspect-ratio" || name === "device-aspect-ratio") {
+    const [width, height = "1"] = text.split("/").map((part) => part.trim());
+    const ratio = Number(width) / Number(height);
+    return Number.isFinite(ratio) ? ratio : undefined;
+  }
+  if (name === "resolution") {
+    return parseResolution(text);
+  }
+  if (name.endsWith("width") || name.endsWith("height")) {
+    return parseLength(text, device);
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseResolution(text: string) {
+  const match = /^([+-]?[\d.]+)(dppx|x|dpi|dpcm)$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  switch (match[2]) {
+    case "dpi":
+      return value / 96;
+    case "dpcm":
+      return (value * 2.54) / 96;
+    default:
+      return value;
+  }
+}
+
+// Resolves a CSS length, including simple `calc()` expressions, to CSS
+// pixels.
+function parseLength(text: string, device: ResolvedDevice) {
+  if (text.startsWith("calc(") && text.endsWith(")")) {
+    return evaluateCalc(text.slice(5, -1), device);
+  }
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+))([a-z]*)$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  const unit = match[2];
+  const units: Record<string, number> = {
+    px: 1,
+    em: FONT_SIZE_PX,
+    rem: FONT_SIZE_PX,
+    vw: device.width / 100,
+    vh: device.height / 100,
+    vmin: Math.min(device.width, device.height) / 100,
+    vmax: Math.max(device.width, device.height) / 100,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    pt: 96 / 72,
+    pc: 16,
+  };
+  if (unit === "") {
+    return value === 0 ? 0 : undefined;
+  }
+  return unit in units ? value * units[unit] : undefined;
+}
+
+function evaluateCalc(expression: string, device: ResolvedDevice) {
+  const tokens = expression.match(/[+-]?(?:\d+\.?\d*|\.\d+)[a-z%]*|[-+*/()]/g);
+  if (!tokens) {
+    return undefined;
+  }
+  let index = 0;
+  // Numbers without a unit only make sense as multipliers and divisors.
+  const parseOperand = (): number | undefined => {
+    const token = tokens[index++];
+    if (token === "(") {
+      const value = parseSum();
+      return tokens[index++] === ")" ? value : undefined;
+    }
+    if (token === undefined) {
+      return undefined;
+    }
+    return /[a-z]$/.test(token) ? parseLength(token, device) : Number(token);
+  };
+  const parseProduct = () => {
+    let value = parseOperand();
+    while (tokens[index] === "*" || tokens[index] === "/") {
+      const operator = tokens[index++];
+      const operand = parseOperand();
+      if (value === undefined || operand === undefined) {
+        return undefined;
+      }
+      value = operator === "*" ? value * operand : value / operand;
+    }
+    return value;
+  };
+  const parseSum = (): number | undefined => {
+    let value = parseProduct();
+    while (tokens[index] === "+" || tokens[index] === "-") {
+      const operator = tokens[index++];
+      const operand = parseProduct();
+      if (value === undefined || operand === undefined) {
+        return undefined;
+      }
+      value = operator === "+" ? value + operand : value - operand;
+    }
+    return value;
+  };
+  const value = parseSum();
+  return index === tokens.length && Number.isFinite(value) ? value : undefined;
+}
+
+function normalizeFeatureName(name: string) {
+  // `-webkit-min-device-pixel-ratio` puts its prefix after the vendor one.
+  const webkit = /^-webkit-(min-|max-)?device-pixel-ratio$/.exec(name);
+  return webkit ? `${webkit[1] ?? ""}-webkit-device-pixel-ratio` : name;
+}
+
+function isFeatureName(text: string) {
+  return /^-?[a-z][a-z-]*$/.test(text);
+}
+
+function flipOperator(operator: string) {
+  return operator.startsWith("<")
+    ? operator.replace("<", ">")
+    : operator.replace(">", "<");
+}
+
+function isGroup(token: string | undefined) {
+  return token !== undefined && token.startsWith("(") && token.endsWith(")");
+}
+
+function splitTopLevel(text: string, separator: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "(") {
+      depth += 1;
+    } else if (text[index] === ")") {
+      depth -= 1;
+    } else if (text[index] === separator && depth === 0) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
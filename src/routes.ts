@@ -0,0 +1,184 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { guessContentType, normalizeHeaders, notFound } from "./fetchers.js";
+import { compileUrlPattern, type UrlPattern } from "./scope.js";
+import type {
+  FetchedResource,
+  RequestInterceptor,
+  ResourceFetcher,
+} from "./types.js";
+
+// A route answers with `body`, or with the contents of `file` when no body
+// is given.
+export type RouteResponse = {
+  body?: string | Buffer;
+  file?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  delayMs?: number;
+};
+
+// Globs starting with "/" match the URL's path; other globs and regular
+// expressions match the whole URL. Routes without a method match any.
+export type Route = RouteResponse & {
+  url: UrlPattern;
+  method?: string | string[];
+};
+
+export type UnmatchedRequest = {
+  method: string;
+  url: string;
+};
+
+export type RouteTableOptions = {
+  directory?: string;
+  onUnmatched?: (request: UnmatchedRequest) => void;
+};
+
+export type RouteTable = {
+  interceptor: RequestInterceptor;
+  fetcher: ResourceFetcher;
+  unmatched: UnmatchedRequest[];
+};
+
+type CompiledRoute = {
+  route: Route;
+  pattern: RegExp;
+  matchesPath: boolean;
+  methods?: string[];
+};
+
+// Routes are tried in order and the first match answers. Unmatched requests
+// get an empty body from the interceptor and a 404 from the fetcher, and are
+// listed once each in `unmatched`. jsdom only takes a body from an
+// interceptor, so `status`, `headers` and `contentType` apply to the fetcher
+// alone.
+export function createRouteTable(
+  routes: Route[],
+  options: RouteTableOptions = {},
+): RouteTable {
+  const directory = path.resolve(options.directory ?? ".");
+  const compiled: CompiledRoute[] = routes.map((route) => ({
+    route,
+    pattern: compileUrlPattern(route.url),
+    matchesPath: typeof route.url === "string" && route.url.startsWith("/"),
+    methods: toArray(route.method)?.map((method) => method.toUpperCase()),
+  }));
+  const unmatched: UnmatchedRequest[] = [];
+  const seen = new Set<string>();
+
+  const match = (url: string, method: string) => {
+    const found = compiled.find(
+      (item) =>
+        (!item.methods || item.methods.includes(method)) &&
+        item.pattern.test(item.matchesPath ? getPath(url) : url),
+    );
+    if (!found) {
+      const key = `${method} ${url}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        const request = { method, url };
+        unmatched.push(request);
+        options.onUnmatched?.(request);
+      }
+    }
+    return found?.route;
+  };
+
+  // Resolves to `undefined` when the route's file cannot be read.
+  const loadBody = async (route: Route, signal?: AbortSignal) => {
+    if (route.delayMs) {
+      await delay(route.delayMs, signal);
+    }
+    if (route.body !== undefined || route.file === undefined) {
+      return route.body ?? "";
+    }
+    try {
+      return await readFile(path.resolve(directory, route.file), { signal });
+    } catch {
+      return undefined;
+    }
+  };
+
+  const respond = async (
+    route: Route,
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<FetchedResource> => {
+    const body = await loadBody(route, signal);
+    if (body === undefined) {
+      return notFound(url);
+    }
+    const headers = normalizeHeaders(route.headers);
+    const contentType =
+      route.contentType ??
+      (route.file !== undefined ? guessContentType(route.file) : undefined) ??
+      guessContentType(url);
+    if (contentType && !headers["content-type"]) {
+      headers["content-type"] = contentType;
+    }
+    return {
+      body: body.toString(),
+      status: route.status ?? 200,
+      headers,
+      url,
+    };
+  };
+
+  return {
+    interceptor: async (url, fetchOptions) => {
+      // Pages often request relative URLs; match them as the browser would
+      // send them.
+      const route = match(
+        resolveUrl(url, fetchOptions.referrer),
+        (fetchOptions.method ?? "GET").toUpperCase(),
+      );
+      return route ? ((await loadBody(route)) ?? "") : "";
+    },
+    fetcher: async (url, init) => {
+      const route = match(url, "GET");
+      return route ? respond(route, url, init?.signal) : notFound(url);
+    },
+    unmatched,
+  };
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function resolveUrl(url: string, base: string | undefined) {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+function getPath(url: string) {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+function toArray(value: string | string[] | undefined) {
+  return value === undefined || Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,116 @@
+import type { ResourceKind } from "./types.js";
+
+export type UrlPattern = string | RegExp;
+
+export type ScopeRule = {
+  sameOrigin?: boolean;
+  hosts?: string[];
+  include?: UrlPattern[];
+  exclude?: UrlPattern[];
+  kinds?: Partial<Record<ResourceKind, boolean>>;
+};
+
+export type LighterceptorScope = {
+  origin?: string;
+  record?: ScopeRule;
+  follow?: ScopeRule;
+};
+
+export type ScopeCandidate = {
+  url: string;
+  kind?: ResourceKind;
+  documentUrl?: string;
+};
+
+export type ScopeMatcher = (candidate: ScopeCandidate) => boolean;
+
+export function createScopeMatcher(
+  rule: ScopeRule | undefined,
+  origin?: string,
+): ScopeMatcher {
+  if (!rule) {
+    return () => true;
+  }
+
+  const include = rule.include?.map(compileUrlPattern);
+  const exclude = rule.exclude?.map(compileUrlPattern) ?? [];
+  const hosts = rule.hosts?.map((host) => host.toLowerCase());
+  const fixedOrigin = origin ? getOrigin(origin) : undefined;
+
+  return ({ url, kind, documentUrl }) => {
+    if (rule.sameOrigin) {
+      const expected =
+        fixedOrigin ?? (documentUrl ? getOrigin(documentUrl) : undefined);
+      if (expected && getOrigin(url) !== expected) {
+        return false;
+      }
+    }
+
+    if (hosts) {
+      const host = getHostname(url);
+      if (!host || !hosts.some((pattern) => matchesHost(host, pattern))) {
+        return false;
+      }
+    }
+
+    if (kind && rule.kinds?.[kind] === false) {
+      return false;
+    }
+
+    if (include && !include.some((pattern) => pattern.test(url))) {
+      return false;
+    }
+
+    return !exclude.some((pattern) => pattern.test(url));
+  };
+}
+
+export function compileUrlPattern(pattern: UrlPattern) {
+  if (pattern instanceof RegExp) {
+    return new RegExp(pattern.source, pattern.flags.replace("g", ""));
+  }
+  return globToRegExp(pattern);
+}
+
+function globToRegExp(glob: string) {
+  let source = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === "*") {
+      if (glob[index + 1] === "*") {
+        source += ".*";
+        index += 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesHost(host: string, pattern: string) {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+function getOrigin(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+function getHostname(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,166 @@
+import type { DOMWindow } from "jsdom";
+
+export type SettleOptions =
+  | { strategy: "fixed" }
+  | { strategy: "idle"; idleMs?: number; maxMs?: number };
+
+export type ActivityTracker = {
+  install(window: DOMWindow): void;
+  track<T>(promise: Promise<T>): Promise<T>;
+  waitForIdle(options: {
+    idleMs: number;
+    maxMs: number;
+    signal?: AbortSignal;
+  }): Promise<boolean>;
+};
+
+export const DEFAULT_IDLE_MS = 50;
+export const DEFAULT_MAX_SETTLE_MS = 5000;
+
+type TimerCallback = (...args: unknown[]) => void;
+
+export function createActivityTracker(): ActivityTracker {
+  let pending = 0;
+  let lastActivity = Date.now();
+
+  const touch = () => {
+    lastActivity = Date.now();
+  };
+
+  const begin = () => {
+    pending += 1;
+    touch();
+  };
+
+  const end = () => {
+    pending = Math.max(0, pending - 1);
+    touch();
+  };
+
+  const track = <T>(promise: Promise<T>) => {
+    begin();
+    promise.then(end, end);
+    return promise;
+  };
+
+  const install = (window: DOMWindow) => {
+    const timeouts = new Set<unknown>();
+    const originalSetTimeout = window.setTimeout;
+    const originalClearTimeout = window.clearTimeout;
+    const originalSetInterval = window.setInterval;
+
+    window.setTimeout = function setTimeout(
+      handler: TimerCallback | string,
+      timeout?: number,
+      ...args: unknown[]
+    ) {
+      if (typeof handler !== "function") {
+        touch();
+        return originalSetTimeout.call(window, handler, timeout, ...args);
+      }
+
+      begin();
+      const id = originalSetTimeout.call(
+        window,
+        (...callbackArgs: unknown[]) => {
+          timeouts.delete(id);
+          try {
+            handler(...callbackArgs);
+          } finally {
+            end();
+          }
+        },
+        timeout,
+        ...args,
+      );
+      timeouts.add(id);
+      return id;
+    } as typeof window.setTimeout;
+
+    window.clearTimeout = function clearTimeout(id?: number) {
+      if (timeouts.delete(id)) {
+        end();
+      }
+      return originalClearTimeout.call(window, id);
+    } as typeof window.clearTimeout;
+
+    // Intervals never finish on their own, so they are not pending work;
+    // only the requests their ticks start keep the page busy.
+    window.setInterval = function setInterval(
+      handler: TimerCallback | string,
+      timeout?: number,
+      ...args: unknown[]
+    ) {
+      touch();
+      return originalSetInterval.call(window, handler, timeout, ...args);
+    } as typeof window.setInterval;
+
+    if (typeof window.fetch === "function") {
+      const originalFetch = window.fetch;
+      window.fetch = function fetch(
+        input: RequestInfo | URL,
+        init?: RequestInit,
+      ) {
+        return track(Promise.resolve(originalFetch.call(window, input, init)));
+      } as typeof window.fetch;
+    }
+
+    const xhrProto = window.XMLHttpRequest?.prototype;
+    if (xhrProto) {
+      const originalSend = xhrProto.send;
+      xhrProto.send = function send(
+        this: XMLHttpRequest,
+        body?: Document | XMLHttpRequestBodyInit | null,
+      ) {
+        touch();
+        this.addEventListener("loadend", touch);
+        return originalSend.call(this, body);
+      };
+    }
+  };
+
+  const waitForIdle: ActivityTracker["waitForIdle"] = ({
+    idleMs,
+    maxMs,
+    signal,
+  }) => {
+    const startedAt = Date.now();
+    const pollMs = Math.max(1, Math.min(idleMs, 10));
+
+    return new Promise<boolean>((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (idle: boolean) => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+        resolve(idle);
+      };
+
+      const onAbort = () => finish(false);
+
+      const check = () => {
+        const now = Date.now();
+        if (pending === 0 && now - lastActivity >= idleMs) {
+          finish(true);
+          return;
+        }
+        if (now - startedAt >= maxMs) {
+          finish(false);
+          return;
+        }
+        timer = setTimeout(check, pollMs);
+      };
+
+      if (signal?.aborted) {
+        finish(false);
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      check();
+    });
+  };
+
+  return { install, track, waitForIdle };
+}
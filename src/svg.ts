@@ -0,0 +1,67 @@
+export const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+export const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+// `image` and `feImage` load pictures, `use` pulls elements out of another
+// SVG document and `script` loads code.
+export type SvgReferenceType = "image" | "use" | "script";
+
+export type SvgReference = {
+  url: string;
+  type: SvgReferenceType;
+  discoveredBy: string;
+};
+
+const REFERENCE_TYPES: Record<string, SvgReferenceType> = {
+  image: "image",
+  feImage: "image",
+  use: "use",
+  script: "script",
+};
+
+export function getSvgReferenceType(
+  element: Element,
+): SvgReferenceType | undefined {
+  return element.namespaceURI === SVG_NAMESPACE
+    ? REFERENCE_TYPES[element.localName]
+    : undefined;
+}
+
+// Builds the reference an SVG element's `href` (or legacy `xlink:href`)
+// points at. `<use>` only needs the document, so its fragment is dropped and
+// same-document references are skipped.
+export function toSvgReference(
+  element: Element,
+  href: string,
+  attribute: "href" | "xlink:href",
+): SvgReference | undefined {
+  const type = getSvgReferenceType(element);
+  if (!type) {
+    return undefined;
+  }
+  const url = type === "use" ? href.trim().split("#")[0] : href.trim();
+  if (!url) {
+    return undefined;
+  }
+  return { url, type, discoveredBy: `${element.localName}[${attribute}]` };
+}
+
+export function extractSvgReferences(root: ParentNode): SvgReference[] {
+  const references: SvgReference[] = [];
+  root.querySelectorAll("*").forEach((element) => {
+    if (!getSvgReferenceType(element)) {
+      return;
+    }
+    const href = element.getAttribute("href");
+    const xlinkHref = element.getAttributeNS(XLINK_NAMESPACE, "href");
+    const reference =
+      href !== null
+        ? toSvgReference(element, href, "href")
+        : xlinkHref !== null
+          ? toSvgReference(element, xlinkHref, "xlink:href")
+          : undefined;
+    if (reference) {
+      references.push(reference);
+    }
+  });
+  return references;
+}
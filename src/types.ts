@@ -1,18 +1,47 @@
 import type { FetchOptions as JSDOMFetchOptions } from "jsdom";
 
-export type RequestSource = "resource" | "img" | "css" | "fetch" | "xhr";
+export type RequestSource =
+  | "resource"
+  | "img"
+  | "css"
+  | "fetch"
+  | "xhr"
+  | "beacon"
+  | "websocket"
+  | "eventsource"
+  | "worker"
+  | "navigation";
+
+export type ResourceKind = "html" | "css" | "js" | "svg" | "manifest";
+
+export type CssReferenceType = "import" | "font" | "image" | "cursor" | "mask";
 
 type InterceptorElement =
   | JSDOMFetchOptions["element"]
   | HTMLAudioElement
   | HTMLSourceElement
-  | HTMLVideoElement;
+  | HTMLVideoElement
+  | SVGElement;
+
+export type RequestCredentialsMode = "omit" | "same-origin" | "include";
 
-export type FetchOptions = Omit<JSDOMFetchOptions, "element"> & {
-  element?: InterceptorElement;
-  source?: RequestSource;
+export type RequestDetails = {
+  method?: string;
+  headers?: Record<string, string>;
+  credentials?: RequestCredentialsMode;
+  body?: string;
 };
 
+export type FetchOptions = Omit<JSDOMFetchOptions, "element"> &
+  RequestDetails & {
+    element?: InterceptorElement;
+    source?: RequestSource;
+    discoveredBy?: string;
+    classification?: CssReferenceType;
+    // Set for responsive image candidates when a device is emulated.
+    selected?: boolean;
+  };
+
 export type RequestInterceptor = (
   url: string,
   options: FetchOptions,
@@ -22,3 +51,19 @@ export type RequestInterceptor = (
   | string
   | null
   | undefined;
+
+export type FetchedResource = {
+  body: string;
+  status: number;
+  headers: Record<string, string>;
+  url: string;
+};
+
+export type ResourceFetcherInit = {
+  signal?: AbortSignal;
+};
+
+export type ResourceFetcher = (
+  url: string,
+  init?: ResourceFetcherInit,
+) => Promise<FetchedResource | null> | FetchedResource | null;